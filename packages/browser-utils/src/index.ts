@@ -8,4 +8,16 @@ export function getBrowserInfo() {
     }
 }
 
-export { Metrics } from './integrations/metrics'
+export { LongTasks } from './integrations/longTasks'
+export type { LongTasksOptions } from './integrations/longTasks'
+export { Metrics, onNavigationTiming } from './integrations/metrics'
+export type { MetricsOptions, NavigationTiming } from './integrations/metrics'
+export { Resources } from './integrations/resources'
+export type { ResourcesOptions } from './integrations/resources'
+
+export * from './metrics'
+export { generateUniqueID } from './metrics/lib/generateUniqueID'
+export { getSelector } from './metrics/lib/getSelector'
+export { onHidden } from './metrics/lib/onHidden'
+export { triggerSoftNavigation } from './metrics/lib/softNavigation'
+export { isMonitorRequest } from './utils'
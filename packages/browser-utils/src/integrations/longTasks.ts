@@ -0,0 +1,219 @@
+import { IIntegration, Monitoring, Transport } from '@sharing/monitor-sdk-core'
+
+import { observe } from '../metrics/lib/observe'
+import { onHidden } from '../metrics/lib/onHidden'
+
+export interface LongTasksOptions {
+    /**
+     * 上报的最慢长动画帧（及长任务）数量，默认 5
+     */
+    maxFrames?: number
+    /**
+     * 上报的阻塞耗时最多的脚本数量，默认 10
+     */
+    maxScripts?: number
+}
+
+interface ScriptSummary {
+    sourceURL: string
+    sourceFunctionName: string
+    invoker: string
+    invokerType: string
+    duration: number
+}
+
+interface FrameSummary {
+    startTime: number
+    duration: number
+    blockingDuration: number
+    scripts: ScriptSummary[]
+}
+
+interface TaskSummary {
+    startTime: number
+    duration: number
+    containerType?: string
+    containerSrc?: string
+    containerName?: string
+}
+
+interface ScriptStats {
+    sourceURL: string
+    duration: number
+    count: number
+}
+
+/**
+ * 任务超过 50ms 的部分计为阻塞时间（与 TBT 的定义一致）
+ */
+const BLOCKING_THRESHOLD = 50
+
+const DEFAULT_OPTIONS: Required<LongTasksOptions> = {
+    maxFrames: 5,
+    maxScripts: 10,
+}
+
+/**
+ * 按耗时降序插入并截断，只保留最慢的若干条
+ * @param {T[]} list - 已排序的列表
+ * @param {T} item - 待插入的条目
+ * @param {number} max - 最多保留的数量
+ * @returns {T[]} 新的列表
+ */
+const insertTop = <T extends { duration: number }>(list: T[], item: T, max: number) => {
+    return list
+        .concat(item)
+        .sort((a, b) => b.duration - a.duration)
+        .slice(0, max)
+}
+
+/**
+ * 提取脚本归因中可上报的字段
+ * @param {PerformanceScriptTiming} script - LoAF 条目中的脚本计时
+ * @returns {ScriptSummary} 脚本摘要
+ */
+const summarizeScript = (script: PerformanceScriptTiming): ScriptSummary => ({
+    sourceURL: script.sourceURL,
+    sourceFunctionName: script.sourceFunctionName,
+    invoker: script.invoker,
+    invokerType: script.invokerType,
+    duration: Math.round(script.duration),
+})
+
+/**
+ * 主线程卡顿监控
+ * 同时监听长任务（longtask）与长动画帧（long-animation-frame）：
+ * 1. 长任务兼容性更好，用于统计卡顿次数与总阻塞时间；
+ * 2. 长动画帧包含脚本归因（来源 URL、函数名、调用方），用于定位阻塞页面的脚本（包括第三方脚本）。
+ * 页面隐藏时上报本页累计的数据并重新计数
+ */
+export class LongTasks implements IIntegration {
+    name = 'LongTasks'
+
+    private options: Required<LongTasksOptions>
+
+    private transport: Transport | null = null
+
+    private observers: PerformanceObserver[] = []
+
+    private longTaskCount = 0
+
+    private totalBlockingTime = 0
+
+    private tasks: TaskSummary[] = []
+
+    private frameCount = 0
+
+    private frameBlockingDuration = 0
+
+    private frames: FrameSummary[] = []
+
+    // 按脚本来源汇总的耗时，内联脚本没有 sourceURL，以调用方区分
+    private scripts = new Map<string, ScriptStats>()
+
+    constructor(options: LongTasksOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+    }
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+
+        const taskObserver = observe('longtask', this.handleLongTasks)
+        const frameObserver = observe('long-animation-frame', this.handleFrames)
+
+        this.observers = [taskObserver, frameObserver].filter((observer): observer is PerformanceObserver => !!observer)
+
+        onHidden(() => {
+            // 观察器回调是异步的，上报前先取出尚未分发的条目
+            taskObserver && this.handleLongTasks(taskObserver.takeRecords() as PerformanceLongTaskTiming[])
+            frameObserver && this.handleFrames(frameObserver.takeRecords() as PerformanceLongAnimationFrameTiming[])
+            this.report()
+        })
+    }
+
+    teardown() {
+        this.observers.forEach(observer => observer.disconnect())
+        this.observers = []
+        this.transport = null
+    }
+
+    private handleLongTasks = (entries: PerformanceLongTaskTiming[]) => {
+        entries.forEach(entry => {
+            const attribution = entry.attribution?.[0]
+
+            this.longTaskCount++
+            this.totalBlockingTime += Math.max(entry.duration - BLOCKING_THRESHOLD, 0)
+            this.tasks = insertTop(
+                this.tasks,
+                {
+                    startTime: Math.round(entry.startTime),
+                    duration: Math.round(entry.duration),
+                    containerType: attribution?.containerType,
+                    containerSrc: attribution?.containerSrc,
+                    containerName: attribution?.containerName,
+                },
+                this.options.maxFrames
+            )
+        })
+    }
+
+    private handleFrames = (entries: PerformanceLongAnimationFrameTiming[]) => {
+        entries.forEach(entry => {
+            const scripts = entry.scripts || []
+
+            this.frameCount++
+            this.frameBlockingDuration += entry.blockingDuration || 0
+            this.frames = insertTop(
+                this.frames,
+                {
+                    startTime: Math.round(entry.startTime),
+                    duration: Math.round(entry.duration),
+                    blockingDuration: Math.round(entry.blockingDuration || 0),
+                    scripts: scripts.map(summarizeScript),
+                },
+                this.options.maxFrames
+            )
+
+            scripts.forEach(script => {
+                const key = script.sourceURL || script.invoker
+                const stats = this.scripts.get(key) || { sourceURL: key, duration: 0, count: 0 }
+
+                stats.duration += script.duration
+                stats.count++
+                this.scripts.set(key, stats)
+            })
+        })
+    }
+
+    private report() {
+        if (!this.transport || (!this.longTaskCount && !this.frameCount)) {
+            return
+        }
+
+        const scripts = [...this.scripts.values()]
+            .sort((a, b) => b.duration - a.duration)
+            .slice(0, this.options.maxScripts)
+            .map(stats => ({ ...stats, duration: Math.round(stats.duration) }))
+
+        this.transport.send({
+            event_type: 'perforance',
+            type: 'long_task',
+            longTaskCount: this.longTaskCount,
+            totalBlockingTime: Math.round(this.totalBlockingTime),
+            longAnimationFrameCount: this.frameCount,
+            longAnimationFrameBlockingDuration: Math.round(this.frameBlockingDuration),
+            tasks: this.tasks,
+            frames: this.frames,
+            scripts,
+            path: window.location.pathname,
+        })
+
+        this.longTaskCount = 0
+        this.totalBlockingTime = 0
+        this.tasks = []
+        this.frameCount = 0
+        this.frameBlockingDuration = 0
+        this.frames = []
+        this.scripts.clear()
+    }
+}
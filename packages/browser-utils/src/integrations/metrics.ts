@@ -1,46 +1,191 @@
-import { Transport } from '@sharing/monitor-sdk-core'
+import { IIntegration, Monitoring, Transport } from '@sharing/monitor-sdk-core'
 
-import { onCLS, onFCP, onLCP, onTTFB } from '../metrics'
+import {
+    Metric,
+    onCLS,
+    onCLSWithAttribution,
+    onFCP,
+    onFCPWithAttribution,
+    onFID,
+    onFIDWithAttribution,
+    onINP,
+    onINPWithAttribution,
+    onLCP,
+    onLCPWithAttribution,
+    onTTFB,
+    onTTFBWithAttribution,
+    ReportOpts,
+} from '../metrics'
+import { getNavigationEntry } from '../metrics/lib/getNavigationEntry'
+import { getMetricPath } from '../metrics/lib/softNavigation'
+import { whenReady } from '../metrics/lib/whenReady'
 
-export const onLoad = (callback: (metric: { name: string; value: number }) => void) => {
-    // 获取所有导航条目的数据
-    const navigationEntries = performance.getEntriesByType('navigation')
+type MetricName = Metric['name']
 
-    // 如果存在导航条目，取第一个
-    if (navigationEntries.length > 0) {
-        const entry = navigationEntries[0] as PerformanceNavigationTiming
+export interface MetricsOptions {
+    /**
+     * 是否采集归因信息（导致指标变差的元素、各阶段耗时等），默认不采集
+     */
+    attribution?: boolean
+    /**
+     * 需要采集的指标，默认 ['CLS', 'LCP', 'FCP', 'TTFB', 'INP']
+     * FID已被INP取代，仅用于与历史数据对比，需要时显式加入
+     */
+    metrics?: MetricName[]
+    /**
+     * 是否在指标每次变化时都上报，默认只在指标最终确定时上报
+     */
+    reportAllChanges?: boolean
+    /**
+     * INP 只统计耗时不低于该值（毫秒）的交互，默认 40
+     */
+    durationThreshold?: number
+}
+
+type MetricFn = (onReport: (metric: Metric & { attribution?: object }) => void, opts?: ReportOpts) => void
 
-        // 计算页面加载时长
-        let loadTime = entry ? entry.loadEventEnd - entry.connectStart : 10
+const DEFAULT_METRICS: MetricName[] = ['CLS', 'LCP', 'FCP', 'TTFB', 'INP']
+
+/**
+ * 各指标对应的采集函数：[不带归因, 带归因]
+ */
+const METRIC_FNS: Record<MetricName, [MetricFn, MetricFn]> = {
+    CLS: [onCLS, onCLSWithAttribution],
+    FCP: [onFCP, onFCPWithAttribution],
+    FID: [onFID, onFIDWithAttribution],
+    INP: [onINP, onINPWithAttribution],
+    LCP: [onLCP, onLCPWithAttribution],
+    TTFB: [onTTFB, onTTFBWithAttribution],
+}
 
-        if (loadTime <= 0) {
-            loadTime = performance.now()
+/**
+ * 提取归因对象中可序列化的字段
+ * 归因对象中包含DOM节点与性能条目的引用，这些字段无法（或不适合）直接上报，仅保留字符串/数值/布尔值
+ * @param {object} attribution - 指标的归因对象
+ * @returns {Record<string, string | number | boolean>} 可上报的归因数据
+ */
+const serializeAttribution = (attribution: object) => {
+    return Object.entries(attribution).reduce<Record<string, string | number | boolean>>((result, [key, value]) => {
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            result[key] = value
         }
+        return result
+    }, {})
+}
 
-        // 执行回调函数
-        callback({ name: 'LOAD', value: loadTime })
-    } else {
-        const loadTime = performance.now()
-        callback({ name: 'LOAD', value: loadTime })
-    }
+export interface NavigationTiming {
+    navigationType: string
+    /**
+     * 预渲染页面的激活时间，非预渲染页面为 0
+     */
+    activationStart: number
+    redirect: number
+    dns: number
+    tcp: number
+    tls: number
+    request: number
+    response: number
+    domProcessing: number
+    /**
+     * 以下为从导航开始（预渲染页面从激活）起算的时间点
+     */
+    ttfb: number
+    domContentLoaded: number
+    load: number
+}
+
+/**
+ * 计算阶段耗时，阶段未发生（如没有重定向、复用连接）时为 0
+ * @param {number} start - 阶段开始时间
+ * @param {number} end - 阶段结束时间
+ * @returns {number} 阶段耗时（毫秒）
+ */
+const duration = (start: number, end: number) => (start > 0 && end > start ? Math.round(end - start) : 0)
+
+/**
+ * 在 loadEventEnd 填充后，把导航计时条目拆分为各阶段耗时并回调一次
+ * 预渲染页面在激活前完成的阶段不影响用户感知，时间点均减去 activationStart
+ * @param {(timing: NavigationTiming) => void} callback - 回调函数
+ */
+export const onNavigationTiming = (callback: (timing: NavigationTiming) => void) => {
+    whenReady(() => {
+        const entry = getNavigationEntry()
+
+        if (!entry) {
+            return
+        }
+
+        const activationStart = entry.activationStart || 0
+        const sinceActivation = (time: number) => Math.round(Math.max(time - activationStart, 0))
+
+        callback({
+            navigationType: document.prerendering || activationStart > 0 ? 'prerender' : entry.type.replace(/_/g, '-'),
+            activationStart: Math.round(activationStart),
+            redirect: duration(entry.redirectStart, entry.redirectEnd),
+            dns: duration(entry.domainLookupStart, entry.domainLookupEnd),
+            tcp: duration(entry.connectStart, entry.connectEnd),
+            tls: duration(entry.secureConnectionStart, entry.connectEnd),
+            request: duration(entry.requestStart, entry.responseStart),
+            response: duration(entry.responseStart, entry.responseEnd),
+            domProcessing: duration(entry.responseEnd, entry.domComplete),
+            ttfb: sinceActivation(entry.responseStart),
+            domContentLoaded: sinceActivation(entry.domContentLoadedEventEnd),
+            load: sinceActivation(entry.loadEventEnd),
+        })
+    })
 }
 
-export class Metrics {
-    constructor(private transport: Transport) {}
-
-    init() {
-        window.addEventListener('load', () => {
-            ;[onCLS, onLCP, onFCP, onTTFB, onLoad].forEach(metricFn => {
-                metricFn(metric => {
-                    this.transport.send({
-                        event_type: 'perforance',
-                        type: 'webVistal',
-                        name: metric.name,
-                        value: metric.value,
-                        path: window.location.pathname,
-                    })
-                })
+export class Metrics implements IIntegration {
+    name = 'Metrics'
+
+    private transport: Transport | null = null
+
+    constructor(private options: MetricsOptions = {}) {}
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+
+        const { attribution, metrics = DEFAULT_METRICS, reportAllChanges, durationThreshold } = this.options
+        const reportOpts: ReportOpts = { reportAllChanges, durationThreshold }
+
+        // 立即开始监听：指标函数内部使用 buffered 观察器并处理 bfcache 恢复，等到 load 之后再注册会丢失这些数据
+        metrics.forEach(name => {
+            const [metricFn, metricFnWithAttribution] = METRIC_FNS[name]
+
+            ;(attribution ? metricFnWithAttribution : metricFn)(metric => this.report(metric), reportOpts)
+        })
+
+        onNavigationTiming(timing => {
+            this.transport?.send({
+                event_type: 'perforance',
+                type: 'navigation_timing',
+                ...timing,
+                path: window.location.pathname,
             })
         })
     }
+
+    /**
+     * 指标的监听无法移除，卸载后只是不再上报
+     */
+    teardown() {
+        this.transport = null
+    }
+
+    private report(metric: Metric & { attribution?: object }) {
+        this.transport?.send({
+            event_type: 'perforance',
+            type: 'webVistal',
+            name: metric.name,
+            value: metric.value,
+            rating: metric.rating,
+            delta: metric.delta,
+            // 同一指标实例多次上报（reportAllChanges 或 bfcache 恢复）时 id 相同，服务端据此对 delta 去重累加
+            id: metric.id,
+            navigationType: metric.navigationType,
+            // 软导航时结算的是上一个路由的指标
+            path: getMetricPath(),
+            ...(metric.attribution && { attribution: serializeAttribution(metric.attribution) }),
+        })
+    }
 }
@@ -0,0 +1,206 @@
+import { IIntegration, Monitoring, Transport } from '@sharing/monitor-sdk-core'
+
+import { observe } from '../metrics/lib/observe'
+import { onHidden } from '../metrics/lib/onHidden'
+import { isMonitorRequest } from '../utils'
+
+export interface ResourcesOptions {
+    /**
+     * 加载耗时超过该值（毫秒）的资源视为慢资源，默认 1000
+     */
+    slowThreshold?: number
+    /**
+     * 解码后体积超过该值（字节）的资源视为大资源，默认 500KB
+     */
+    largeThreshold?: number
+    /**
+     * 慢资源、大资源与渲染阻塞资源各自最多上报的数量，默认 10
+     */
+    maxAssets?: number
+}
+
+interface ResourceSummary {
+    url: string
+    initiatorType: string
+    startTime: number
+    duration: number
+    dns: number
+    connect: number
+    tls: number
+    ttfb: number
+    download: number
+    transferSize: number
+    encodedBodySize: number
+    decodedBodySize: number
+    cached: boolean
+    renderBlocking: boolean
+}
+
+interface InitiatorStats {
+    count: number
+    duration: number
+    transferSize: number
+    decodedBodySize: number
+    cached: number
+}
+
+/**
+ * 本页累计的资源统计，条目到达时即汇总，只保留各类排名前 maxAssets 的资源，避免长时间运行的页面内存持续增长
+ */
+interface ResourceStats {
+    count: number
+    transferSize: number
+    cachedCount: number
+    renderBlockingCount: number
+    initiators: Record<string, InitiatorStats>
+    renderBlocking: ResourceSummary[]
+    slowest: ResourceSummary[]
+    largest: ResourceSummary[]
+}
+
+const DEFAULT_OPTIONS: Required<ResourcesOptions> = {
+    slowThreshold: 1000,
+    largeThreshold: 500 * 1024,
+    maxAssets: 10,
+}
+
+const round = (value: number) => Math.max(Math.round(value), 0)
+
+const createInitiatorStats = (): InitiatorStats => ({ count: 0, duration: 0, transferSize: 0, decodedBodySize: 0, cached: 0 })
+
+const createStats = (): ResourceStats => ({
+    count: 0,
+    transferSize: 0,
+    cachedCount: 0,
+    renderBlockingCount: 0,
+    initiators: {},
+    renderBlocking: [],
+    slowest: [],
+    largest: [],
+})
+
+/**
+ * 把资源插入按 key 降序排列的列表，只保留前 max 个
+ */
+const insertTop = (list: ResourceSummary[], resource: ResourceSummary, key: 'duration' | 'decodedBodySize', max: number) => {
+    const index = list.findIndex(item => item[key] < resource[key])
+
+    list.splice(index === -1 ? list.length : index, 0, resource)
+    list.length > max && list.pop()
+}
+
+/**
+ * 把资源计时条目拆分为各阶段耗时
+ * 跨域资源未设置 Timing-Allow-Origin 时，除 startTime/duration 外的字段均为 0
+ * @param {PerformanceResourceTiming} entry - 资源计时条目
+ * @returns {ResourceSummary} 资源摘要
+ */
+const summarizeResource = (entry: PerformanceResourceTiming): ResourceSummary => ({
+    url: entry.name,
+    initiatorType: entry.initiatorType,
+    startTime: round(entry.startTime),
+    duration: round(entry.duration),
+    dns: round(entry.domainLookupEnd - entry.domainLookupStart),
+    connect: round(entry.connectEnd - entry.connectStart),
+    tls: entry.secureConnectionStart > 0 ? round(entry.connectEnd - entry.secureConnectionStart) : 0,
+    ttfb: entry.responseStart > 0 ? round(entry.responseStart - entry.requestStart) : 0,
+    download: entry.responseStart > 0 ? round(entry.responseEnd - entry.responseStart) : 0,
+    transferSize: entry.transferSize,
+    encodedBodySize: entry.encodedBodySize,
+    decodedBodySize: entry.decodedBodySize,
+    // 命中本地缓存时没有网络传输，但有解码后的内容
+    cached: entry.transferSize === 0 && entry.decodedBodySize > 0,
+    renderBlocking: entry.renderBlockingStatus === 'blocking',
+})
+
+/**
+ * 资源加载监控
+ * 汇总页面上各资源的加载阶段耗时、传输与解码体积、缓存命中与渲染阻塞情况，
+ * 按发起类型（script / css / img / fetch 等）分组统计，并标出最慢与最大的资源。
+ * 页面隐藏时上报本页累计的数据并重新计数，可与同页面的 LCP 对照分析加载过程
+ */
+export class Resources implements IIntegration {
+    name = 'Resources'
+
+    private options: Required<ResourcesOptions>
+
+    private transport: Transport | null = null
+
+    private stats = createStats()
+
+    private observer: PerformanceObserver | undefined
+
+    constructor(options: ResourcesOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+    }
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+        this.observer = observe('resource', this.handleEntries)
+
+        onHidden(() => {
+            // 观察器回调是异步的，上报前先取出尚未分发的条目
+            this.observer && this.handleEntries(this.observer.takeRecords() as PerformanceResourceTiming[])
+            this.report()
+        })
+    }
+
+    teardown() {
+        this.observer?.disconnect()
+        this.observer = undefined
+        this.transport = null
+    }
+
+    private handleEntries = (entries: PerformanceResourceTiming[]) => {
+        entries.forEach(entry => {
+            // SDK 自身的上报（fetch / sendBeacon）同样会产生资源条目
+            if (!isMonitorRequest(entry.name)) {
+                this.addResource(summarizeResource(entry))
+            }
+        })
+    }
+
+    private addResource(resource: ResourceSummary) {
+        const { slowThreshold, largeThreshold, maxAssets } = this.options
+        const stats = this.stats
+        const initiator = (stats.initiators[resource.initiatorType] ||= createInitiatorStats())
+
+        stats.count++
+        stats.transferSize += resource.transferSize
+        stats.cachedCount += Number(resource.cached)
+
+        initiator.count++
+        initiator.duration += resource.duration
+        initiator.transferSize += resource.transferSize
+        initiator.decodedBodySize += resource.decodedBodySize
+        initiator.cached += Number(resource.cached)
+
+        if (resource.renderBlocking) {
+            stats.renderBlockingCount++
+            insertTop(stats.renderBlocking, resource, 'duration', maxAssets)
+        }
+
+        if (resource.duration >= slowThreshold) {
+            insertTop(stats.slowest, resource, 'duration', maxAssets)
+        }
+
+        if (resource.decodedBodySize >= largeThreshold) {
+            insertTop(stats.largest, resource, 'decodedBodySize', maxAssets)
+        }
+    }
+
+    private report() {
+        if (!this.transport || !this.stats.count) {
+            return
+        }
+
+        this.transport.send({
+            event_type: 'perforance',
+            type: 'resource_timing',
+            ...this.stats,
+            path: window.location.pathname,
+        })
+
+        this.stats = createStats()
+    }
+}
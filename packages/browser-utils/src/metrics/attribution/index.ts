@@ -0,0 +1,6 @@
+export { onCLS } from './onCLS.js'
+export { onFCP } from './onFCP.js'
+export { onFID } from './onFID.js'
+export { onINP } from './onINP.js'
+export { onLCP } from './onLCP.js'
+export { onTTFB } from './onTTFB.js'
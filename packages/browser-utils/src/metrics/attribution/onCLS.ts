@@ -0,0 +1,54 @@
+import { getLoadState } from '../lib/getLoadState.js'
+import { getSelector } from '../lib/getSelector.js'
+import { onCLS as unattributedOnCLS } from '../onCLS.js'
+import { CLSAttribution, CLSMetric, CLSMetricWithAttribution, ReportOpts } from '../types.js'
+
+/**
+ * 获取布局偏移来源中首个元素节点（sources按文档顺序排列），无元素节点时回退到第一个来源
+ * @param {LayoutShiftAttribution[]} sources - 布局偏移来源列表
+ * @returns {LayoutShiftAttribution | undefined} 归因使用的来源
+ */
+const getLargestLayoutShiftSource = (sources: LayoutShiftAttribution[]) => {
+    return sources.find(s => s.node && s.node.nodeType === 1) || sources[0]
+}
+
+/**
+ * 为CLS指标补充归因信息（最大单次布局偏移的元素、时间、数值及发生时的加载状态）
+ * @param {CLSMetric} metric - CLS指标对象
+ * @returns {CLSMetricWithAttribution} 带归因信息的CLS指标对象
+ */
+const attributeCLS = (metric: CLSMetric): CLSMetricWithAttribution => {
+    let attribution: CLSAttribution = {}
+
+    if (metric.entries.length) {
+        const largestEntry = metric.entries.reduce((a, b) => (a.value > b.value ? a : b))
+
+        if (largestEntry.sources && largestEntry.sources.length) {
+            const largestSource = getLargestLayoutShiftSource(largestEntry.sources)
+
+            if (largestSource) {
+                attribution = {
+                    largestShiftTarget: getSelector(largestSource.node),
+                    largestShiftTime: largestEntry.startTime,
+                    largestShiftValue: largestEntry.value,
+                    largestShiftSource: largestSource,
+                    largestShiftEntry: largestEntry,
+                    loadState: getLoadState(largestEntry.startTime),
+                }
+            }
+        }
+    }
+
+    return Object.assign(metric, { attribution })
+}
+
+/**
+ * 监听并上报带归因信息的CLS指标
+ * @param {(metric: CLSMetricWithAttribution) => void} onReport - 指标上报回调
+ * @param {ReportOpts} [opts] - 上报配置项
+ */
+export const onCLS = (onReport: (metric: CLSMetricWithAttribution) => void, opts?: ReportOpts) => {
+    unattributedOnCLS(metric => {
+        onReport(attributeCLS(metric))
+    }, opts)
+}
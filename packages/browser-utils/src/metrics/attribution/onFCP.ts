@@ -0,0 +1,48 @@
+import { getBFCacheRestoreTime } from '../lib/bfcache.js'
+import { getLoadState } from '../lib/getLoadState.js'
+import { getNavigationEntry } from '../lib/getNavigationEntry.js'
+import { onFCP as unattributedOnFCP } from '../onFCP.js'
+import { FCPAttribution, FCPMetric, FCPMetricWithAttribution, ReportOpts } from '../types.js'
+
+/**
+ * 为FCP指标补充归因信息（TTFB、首字节到FCP的耗时、FCP发生时的加载状态）
+ * @param {FCPMetric} metric - FCP指标对象
+ * @returns {FCPMetricWithAttribution} 带归因信息的FCP指标对象
+ */
+const attributeFCP = (metric: FCPMetric): FCPMetricWithAttribution => {
+    // 默认归因：无FCP条目（如BFCache恢复）时，以恢复时刻判定加载状态
+    let attribution: FCPAttribution = {
+        timeToFirstByte: 0,
+        firstByteToFCP: metric.value,
+        loadState: getLoadState(getBFCacheRestoreTime()),
+    }
+
+    const fcpEntry = metric.entries[metric.entries.length - 1]
+    const navigationEntry = getNavigationEntry()
+
+    if (fcpEntry && navigationEntry) {
+        const activationStart = navigationEntry.activationStart || 0
+        const ttfb = Math.max(0, navigationEntry.responseStart - activationStart)
+
+        attribution = {
+            timeToFirstByte: ttfb,
+            firstByteToFCP: metric.value - ttfb,
+            loadState: getLoadState(fcpEntry.startTime),
+            navigationEntry,
+            fcpEntry,
+        }
+    }
+
+    return Object.assign(metric, { attribution })
+}
+
+/**
+ * 监听并上报带归因信息的FCP指标
+ * @param {(metric: FCPMetricWithAttribution) => void} onReport - 指标上报回调
+ * @param {ReportOpts} [opts] - 上报配置项
+ */
+export const onFCP = (onReport: (metric: FCPMetricWithAttribution) => void, opts?: ReportOpts) => {
+    unattributedOnFCP(metric => {
+        onReport(attributeFCP(metric))
+    }, opts)
+}
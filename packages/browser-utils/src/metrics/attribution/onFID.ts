@@ -0,0 +1,34 @@
+import { getLoadState } from '../lib/getLoadState.js'
+import { getSelector } from '../lib/getSelector.js'
+import { onFID as unattributedOnFID } from '../onFID.js'
+import { FIDMetric, FIDMetricWithAttribution, ReportOpts } from '../types.js'
+
+/**
+ * 为FID指标补充归因信息（交互目标元素、事件类型、交互时间及发生时的加载状态）
+ * @param {FIDMetric} metric - FID指标对象
+ * @returns {FIDMetricWithAttribution} 带归因信息的FID指标对象
+ */
+const attributeFID = (metric: FIDMetric): FIDMetricWithAttribution => {
+    const fidEntry = metric.entries[0]!
+
+    return Object.assign(metric, {
+        attribution: {
+            eventTarget: getSelector(fidEntry.target),
+            eventType: fidEntry.name,
+            eventTime: fidEntry.startTime,
+            eventEntry: fidEntry,
+            loadState: getLoadState(fidEntry.startTime),
+        },
+    })
+}
+
+/**
+ * 监听并上报带归因信息的FID指标
+ * @param {(metric: FIDMetricWithAttribution) => void} onReport - 指标上报回调
+ * @param {ReportOpts} [opts] - 上报配置项
+ */
+export const onFID = (onReport: (metric: FIDMetricWithAttribution) => void, opts?: ReportOpts) => {
+    unattributedOnFID(metric => {
+        onReport(attributeFID(metric))
+    }, opts)
+}
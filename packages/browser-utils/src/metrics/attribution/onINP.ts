@@ -0,0 +1,257 @@
+import { getLoadState } from '../lib/getLoadState.js'
+import { getSelector } from '../lib/getSelector.js'
+import { entryPreProcessingCallbacks, longestInteractionList, longestInteractionMap } from '../lib/interactions.js'
+import { observe } from '../lib/observe.js'
+import { whenIdle } from '../lib/whenIdle.js'
+import { onINP as unattributedOnINP } from '../onINP.js'
+import { INPAttribution, INPMetric, INPMetricWithAttribution, ReportOpts } from '../types.js'
+
+/**
+ * 同一动画帧内（渲染时间相差不超过8ms）处理的事件条目分组
+ */
+interface PendingEntriesGroup {
+    startTime: DOMHighResTimeStamp
+    processingStart: DOMHighResTimeStamp
+    processingEnd: DOMHighResTimeStamp
+    renderTime: DOMHighResTimeStamp
+    entries: PerformanceEventTiming[]
+}
+
+/**
+ * 除最长交互所在帧外，最多保留的历史帧数量（避免内存无限增长）
+ */
+const MAX_PREVIOUS_FRAMES = 50
+
+/**
+ * 是否已完成初始化（创建长动画帧观察器、注册条目预处理钩子），仅在首次调用onINP时执行一次
+ * 原因：只引入模块而未使用归因版本时，不应额外记录交互目标与分组
+ */
+let initialized = false
+
+/**
+ * 尚未清理的长动画帧条目（按startTime升序）
+ */
+let pendingLoAFs: PerformanceLongAnimationFrameTiming[] = []
+
+/**
+ * 尚未清理的事件条目分组（按渲染时间升序）
+ */
+let pendingEntriesGroups: PendingEntriesGroup[] = []
+
+/**
+ * 已处理事件条目中最晚的processingEnd，用于判断哪些LoAF条目可能与后续交互重叠
+ */
+let latestProcessingEnd = 0
+
+/**
+ * 交互条目 → 所属分组的映射（WeakMap：条目被回收时自动释放）
+ */
+const entryToEntriesGroupMap: WeakMap<PerformanceEventTiming, PendingEntriesGroup> = new WeakMap()
+
+/**
+ * interactionId → 交互目标元素的映射
+ * 原因：同一交互的部分条目（如pointerup）可能在元素移除后才产生，target为null，需记录首个有效target
+ */
+const interactionTargetMap: Map<number, Node> = new Map()
+
+/**
+ * 是否已注册空闲清理任务（避免重复注册）
+ */
+let cleanupPending = false
+
+/**
+ * 处理长动画帧条目：加入待处理列表并注册清理任务
+ * @param {PerformanceLongAnimationFrameTiming[]} entries - long-animation-frame类型的性能条目
+ */
+const handleLoAFEntries = (entries: PerformanceLongAnimationFrameTiming[]) => {
+    pendingLoAFs = pendingLoAFs.concat(entries)
+    queueCleanup()
+}
+
+/**
+ * 记录交互的首个目标元素（作为entryPreProcessingCallbacks钩子执行）
+ * @param {PerformanceEventTiming} entry - 交互性能条目
+ */
+const saveInteractionTarget = (entry: PerformanceEventTiming) => {
+    if (entry.interactionId && entry.target && !interactionTargetMap.has(entry.interactionId)) {
+        interactionTargetMap.set(entry.interactionId, entry.target)
+    }
+}
+
+/**
+ * 按渲染时间对事件条目分组（作为entryPreProcessingCallbacks钩子执行）
+ * 规则：渲染时间（startTime + duration）相差不超过8ms的条目视为同一动画帧
+ * （duration会被四舍五入到最接近的8ms）
+ * @param {PerformanceEventTiming} entry - 事件性能条目
+ */
+const groupEntriesByRenderTime = (entry: PerformanceEventTiming) => {
+    const renderTime = entry.startTime + entry.duration
+    let group: PendingEntriesGroup | undefined
+
+    latestProcessingEnd = Math.max(latestProcessingEnd, entry.processingEnd)
+
+    // 从后向前查找：新条目通常属于最近的帧
+    for (let i = pendingEntriesGroups.length - 1; i >= 0; i--) {
+        const potentialGroup = pendingEntriesGroups[i]!
+
+        if (Math.abs(renderTime - potentialGroup.renderTime) <= 8) {
+            group = potentialGroup
+            group.startTime = Math.min(entry.startTime, group.startTime)
+            group.processingStart = Math.min(entry.processingStart, group.processingStart)
+            group.processingEnd = Math.max(entry.processingEnd, group.processingEnd)
+            group.entries.push(entry)
+            break
+        }
+    }
+
+    // 未找到匹配的帧：新建分组
+    if (!group) {
+        group = {
+            startTime: entry.startTime,
+            processingStart: entry.processingStart,
+            processingEnd: entry.processingEnd,
+            renderTime,
+            entries: [entry],
+        }
+        pendingEntriesGroups.push(group)
+    }
+
+    // 仅为INP候选条目（有interactionId或first-input）建立映射，归因时据此找到所属帧
+    if (entry.interactionId || entry.entryType === 'first-input') {
+        entryToEntriesGroupMap.set(entry, group)
+    }
+
+    queueCleanup()
+}
+
+/**
+ * 注册空闲清理任务（同一时间最多一个）
+ */
+const queueCleanup = () => {
+    if (!cleanupPending) {
+        whenIdle(cleanupEntries)
+        cleanupPending = true
+    }
+}
+
+/**
+ * 清理不再需要的分组与LoAF条目
+ * 保留：最近MAX_PREVIOUS_FRAMES帧、最长交互列表所在帧、与保留帧重叠的LoAF、可能与后续交互重叠的LoAF
+ */
+const cleanupEntries = () => {
+    // 删除不属于最长交互列表的交互目标元素，避免持有已移除的DOM节点
+    if (interactionTargetMap.size > 10) {
+        interactionTargetMap.forEach((_, interactionId) => {
+            if (!longestInteractionMap.has(interactionId)) {
+                interactionTargetMap.delete(interactionId)
+            }
+        })
+    }
+
+    const longestInteractionGroups = longestInteractionList.map(i => entryToEntriesGroupMap.get(i.entries[0]!))
+
+    const minIndex = pendingEntriesGroups.length - MAX_PREVIOUS_FRAMES
+    pendingEntriesGroups = pendingEntriesGroups.filter((group, index) => {
+        if (index >= minIndex) return true
+        return longestInteractionGroups.includes(group)
+    })
+
+    const loafsToKeep: Set<PerformanceLongAnimationFrameTiming> = new Set()
+    pendingEntriesGroups.forEach(group => {
+        getIntersectingLoAFs(group.startTime, group.processingEnd).forEach(loaf => loafsToKeep.add(loaf))
+    })
+
+    const prevFrameIndexCutoff = pendingLoAFs.length - 1 - MAX_PREVIOUS_FRAMES
+    pendingLoAFs = pendingLoAFs.filter((loaf, index) => {
+        if (loaf.startTime > latestProcessingEnd && index > prevFrameIndexCutoff) {
+            return true
+        }
+        return loafsToKeep.has(loaf)
+    })
+
+    cleanupPending = false
+}
+
+/**
+ * 获取与指定时间区间重叠的长动画帧条目
+ * @param {DOMHighResTimeStamp} start - 区间开始时间
+ * @param {DOMHighResTimeStamp} end - 区间结束时间
+ * @returns {PerformanceLongAnimationFrameTiming[]} 重叠的LoAF条目
+ */
+const getIntersectingLoAFs = (start: DOMHighResTimeStamp, end: DOMHighResTimeStamp) => {
+    const intersectingLoAFs: PerformanceLongAnimationFrameTiming[] = []
+
+    for (const loaf of pendingLoAFs) {
+        // 帧结束早于区间开始：跳过
+        if (loaf.startTime + loaf.duration < start) continue
+        // 帧开始晚于区间结束：后续条目均不重叠（升序），直接结束
+        if (loaf.startTime > end) break
+
+        intersectingLoAFs.push(loaf)
+    }
+
+    return intersectingLoAFs
+}
+
+/**
+ * 为INP指标补充归因信息（交互目标、输入延迟/处理耗时/呈现延迟三个阶段等）
+ * @param {INPMetric} metric - INP指标对象
+ * @returns {INPMetricWithAttribution} 带归因信息的INP指标对象
+ */
+const attributeINP = (metric: INPMetric): INPMetricWithAttribution => {
+    const firstEntry = metric.entries[0]!
+    const group = entryToEntriesGroupMap.get(firstEntry)!
+
+    const processingStart = firstEntry.processingStart
+    const processingEnd = group.processingEnd
+
+    // 同一帧内处理的所有事件条目，按处理开始时间排序
+    const processedEventEntries = group.entries.sort((a, b) => a.processingStart - b.processingStart)
+
+    const longAnimationFrameEntries = getIntersectingLoAFs(firstEntry.startTime, processingEnd)
+
+    // 优先取条目自身的target；元素已移除时回退到记录的首个target
+    const firstEntryWithTarget = metric.entries.find(entry => entry.target)
+    const interactionTargetElement =
+        (firstEntryWithTarget && firstEntryWithTarget.target) || interactionTargetMap.get(firstEntry.interactionId)
+
+    // 下一帧绘制时间：取条目渲染时间、处理结束时间、重叠LoAF结束时间中的最大值
+    const nextPaintTimeCandidates = [firstEntry.startTime + firstEntry.duration, processingEnd].concat(
+        longAnimationFrameEntries.map(loaf => loaf.startTime + loaf.duration)
+    )
+    const nextPaintTime = Math.max(...nextPaintTimeCandidates)
+
+    const attribution: INPAttribution = {
+        interactionTarget: getSelector(interactionTargetElement),
+        interactionTargetElement: interactionTargetElement || undefined,
+        interactionType: firstEntry.name.startsWith('key') ? 'keyboard' : 'pointer',
+        interactionTime: firstEntry.startTime,
+        nextPaintTime,
+        processedEventEntries,
+        longAnimationFrameEntries,
+        inputDelay: processingStart - firstEntry.startTime,
+        processingDuration: processingEnd - processingStart,
+        presentationDelay: Math.max(nextPaintTime - processingEnd, 0),
+        loadState: getLoadState(firstEntry.startTime),
+    }
+
+    return Object.assign(metric, { attribution })
+}
+
+/**
+ * 监听并上报带归因信息的INP指标
+ * 在onINP的基础上，额外监听长动画帧并按帧分组事件条目，用于定位导致交互缓慢的元素与阶段
+ * @param {(metric: INPMetricWithAttribution) => void} onReport - 指标上报回调
+ * @param {ReportOpts} [opts] - 上报配置项
+ */
+export const onINP = (onReport: (metric: INPMetricWithAttribution) => void, opts?: ReportOpts) => {
+    if (!initialized) {
+        initialized = true
+        observe('long-animation-frame', handleLoAFEntries)
+        entryPreProcessingCallbacks.push(saveInteractionTarget, groupEntriesByRenderTime)
+    }
+
+    unattributedOnINP(metric => {
+        onReport(attributeINP(metric))
+    }, opts)
+}
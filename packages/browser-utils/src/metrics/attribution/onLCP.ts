@@ -0,0 +1,70 @@
+import { getNavigationEntry } from '../lib/getNavigationEntry.js'
+import { getSelector } from '../lib/getSelector.js'
+import { onLCP as unattributedOnLCP } from '../onLCP.js'
+import { LCPAttribution, LCPMetric, LCPMetricWithAttribution, ReportOpts } from '../types.js'
+
+/**
+ * 为LCP指标补充归因信息，将LCP拆分为四个阶段：
+ * TTFB → 资源加载延迟 → 资源加载耗时 → 元素渲染延迟（四者之和等于LCP值）
+ * @param {LCPMetric} metric - LCP指标对象
+ * @returns {LCPMetricWithAttribution} 带归因信息的LCP指标对象
+ */
+const attributeLCP = (metric: LCPMetric): LCPMetricWithAttribution => {
+    // 默认归因：无LCP条目（如BFCache恢复）时，全部计入元素渲染延迟
+    let attribution: LCPAttribution = {
+        timeToFirstByte: 0,
+        resourceLoadDelay: 0,
+        resourceLoadDuration: 0,
+        elementRenderDelay: metric.value,
+    }
+
+    const lcpEntry = metric.entries[metric.entries.length - 1]
+    const navigationEntry = getNavigationEntry()
+
+    if (lcpEntry && navigationEntry) {
+        const activationStart = navigationEntry.activationStart || 0
+        // LCP元素为图片时，查找对应的资源加载条目
+        const lcpResourceEntry = lcpEntry.url ? performance.getEntriesByType('resource').filter(e => e.name === lcpEntry.url)[0] : undefined
+
+        const ttfb = Math.max(0, navigationEntry.responseStart - activationStart)
+
+        const lcpRequestStart = Math.max(
+            ttfb,
+            // requestStart跨域且无Timing-Allow-Origin时为0，回退到startTime
+            lcpResourceEntry ? (lcpResourceEntry.requestStart || lcpResourceEntry.startTime) - activationStart : 0
+        )
+        const lcpResponseEnd = Math.max(lcpRequestStart, lcpResourceEntry ? lcpResourceEntry.responseEnd - activationStart : 0)
+        const lcpRenderTime = Math.max(lcpResponseEnd, lcpEntry.startTime - activationStart)
+
+        attribution = {
+            element: getSelector(lcpEntry.element),
+            timeToFirstByte: ttfb,
+            resourceLoadDelay: lcpRequestStart - ttfb,
+            resourceLoadDuration: lcpResponseEnd - lcpRequestStart,
+            elementRenderDelay: lcpRenderTime - lcpResponseEnd,
+            navigationEntry,
+            lcpEntry,
+        }
+
+        if (lcpEntry.url) {
+            attribution.url = lcpEntry.url
+        }
+
+        if (lcpResourceEntry) {
+            attribution.lcpResourceEntry = lcpResourceEntry
+        }
+    }
+
+    return Object.assign(metric, { attribution })
+}
+
+/**
+ * 监听并上报带归因信息的LCP指标
+ * @param {(metric: LCPMetricWithAttribution) => void} onReport - 指标上报回调
+ * @param {ReportOpts} [opts] - 上报配置项
+ */
+export const onLCP = (onReport: (metric: LCPMetricWithAttribution) => void, opts?: ReportOpts) => {
+    unattributedOnLCP(metric => {
+        onReport(attributeLCP(metric))
+    }, opts)
+}
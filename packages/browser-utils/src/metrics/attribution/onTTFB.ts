@@ -0,0 +1,52 @@
+import { onTTFB as unattributedOnTTFB } from '../onTTFB.js'
+import { ReportOpts, TTFBAttribution, TTFBMetric, TTFBMetricWithAttribution } from '../types.js'
+
+/**
+ * 为TTFB指标补充归因信息，将TTFB拆分为：等待 → 缓存检查 → DNS → 连接 → 请求 五个阶段
+ * @param {TTFBMetric} metric - TTFB指标对象
+ * @returns {TTFBMetricWithAttribution} 带归因信息的TTFB指标对象
+ */
+const attributeTTFB = (metric: TTFBMetric): TTFBMetricWithAttribution => {
+    // 默认归因：无navigation条目（如BFCache恢复）时各阶段均为0
+    let attribution: TTFBAttribution = {
+        waitingDuration: 0,
+        cacheDuration: 0,
+        dnsDuration: 0,
+        connectionDuration: 0,
+        requestDuration: 0,
+    }
+
+    const navigationEntry = metric.entries[0]
+
+    if (navigationEntry) {
+        const activationStart = navigationEntry.activationStart || 0
+
+        // Service Worker处理的导航以workerStart作为等待结束点
+        const waitEnd = Math.max((navigationEntry.workerStart || navigationEntry.fetchStart) - activationStart, 0)
+        const dnsStart = Math.max(navigationEntry.domainLookupStart - activationStart, 0)
+        const connectStart = Math.max(navigationEntry.connectStart - activationStart, 0)
+        const connectEnd = Math.max(navigationEntry.connectEnd - activationStart, 0)
+
+        attribution = {
+            waitingDuration: waitEnd,
+            cacheDuration: dnsStart - waitEnd,
+            dnsDuration: connectStart - dnsStart,
+            connectionDuration: connectEnd - connectStart,
+            requestDuration: metric.value - connectEnd,
+            navigationEntry,
+        }
+    }
+
+    return Object.assign(metric, { attribution })
+}
+
+/**
+ * 监听并上报带归因信息的TTFB指标
+ * @param {(metric: TTFBMetricWithAttribution) => void} onReport - 指标上报回调
+ * @param {ReportOpts} [opts] - 上报配置项
+ */
+export const onTTFB = (onReport: (metric: TTFBMetricWithAttribution) => void, opts?: ReportOpts) => {
+    unattributedOnTTFB(metric => {
+        onReport(attributeTTFB(metric))
+    }, opts)
+}
@@ -1 +0,0 @@
-export { onFID, FIDThresholds } from './onFID.js'
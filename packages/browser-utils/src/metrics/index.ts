@@ -1,8 +1,17 @@
 export { onCLS, CLSThresholds } from './onCLS.js'
 export { onFCP, FCPThresholds } from './onFCP.js'
+export { onFID, FIDThresholds } from './onFID.js'
 export { onINP, INPThresholds } from './onINP.js'
 export { onLCP, LCPThresholds } from './onLCP.js'
 export { onTTFB, TTFBThresholds } from './onTTFB.js'
 
-export * from './deprecated.js'
+export {
+    onCLS as onCLSWithAttribution,
+    onFCP as onFCPWithAttribution,
+    onFID as onFIDWithAttribution,
+    onINP as onINPWithAttribution,
+    onLCP as onLCPWithAttribution,
+    onTTFB as onTTFBWithAttribution,
+} from './attribution/index.js'
+
 export * from './types.js'
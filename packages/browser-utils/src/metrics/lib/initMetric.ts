@@ -3,6 +3,7 @@ import { getBFCacheRestoreTime } from './bfcache'
 import { generateUniqueID } from './generateUniqueID'
 import { getActivationStart } from './getActivationStart'
 import { getNavigationEntry } from './getNavigationEntry'
+import { getSoftNavigationTime } from './softNavigation'
 
 /**
  * 初始化性能指标对象
@@ -19,11 +20,14 @@ export const initMetric = <MetricName extends MetricType['name']>(name: MetricNa
     let navigationType: MetricType['navigationType'] = 'navigate'
 
     // 3. 按优先级判定真实的导航类型（优先级从高到低）
-    if (getBFCacheRestoreTime() > 0) {
-        // 优先级1：页面从后退/前进缓存（BFCache）恢复 → back-forward-cache
+    if (getSoftNavigationTime() > getBFCacheRestoreTime()) {
+        // 优先级1：最近一次导航为单页应用的路由切换 → soft-navigation
+        navigationType = 'soft-navigation'
+    } else if (getBFCacheRestoreTime() > 0) {
+        // 优先级2：页面从后退/前进缓存（BFCache）恢复 → back-forward-cache
         navigationType = 'back-forward-cache'
     } else if (navEntry) {
-        // 优先级2：导航条目存在时，进一步细分
+        // 优先级3：导航条目存在时，进一步细分
         if (
             document.prerendering || // 页面处于预渲染状态
             getActivationStart() > 0 // 预渲染页面激活时间>0（预渲染完成后激活）
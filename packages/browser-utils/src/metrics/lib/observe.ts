@@ -13,6 +13,8 @@ interface PerformanceEntryMap {
     'largest-contentful-paint': LargestContentfulPaint[]
     // 长动画帧条目（INP卡顿归因相关）
     'long-animation-frame': PerformanceLongAnimationFrameTiming[]
+    // 长任务条目（主线程卡顿监控相关）
+    longtask: PerformanceLongTaskTiming[]
     // 绘制条目（FCP相关）
     paint: PerformancePaintTiming[]
     // 导航计时条目（TTFB/LCP归因相关）
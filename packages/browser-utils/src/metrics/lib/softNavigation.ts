@@ -0,0 +1,53 @@
+interface onSoftNavigationCallback {
+    (): void
+}
+
+const callbacks: onSoftNavigationCallback[] = []
+
+/**
+ * 记录最近一次软导航（单页应用路由切换）的时间戳（初始值-1表示未发生过软导航）
+ */
+let softNavigationTime = -1
+
+/**
+ * 软导航回调执行期间为上一个路由的路径，其余时间为undefined
+ */
+let previousPath: string | undefined
+
+/**
+ * 获取指标所属路由的路径
+ * 软导航时地址已经变为新路由，结算上一个路由的指标时需使用上一个路由的路径
+ * @returns {string} 路由路径
+ */
+export const getMetricPath = () => previousPath ?? location.pathname
+
+/**
+ * 获取最近一次软导航的时间戳
+ * @returns {number} 软导航时间戳（-1表示未发生，非-1表示发生时的performance.now()）
+ */
+export const getSoftNavigationTime = () => softNavigationTime
+
+/**
+ * 注册软导航监听，路由切换时执行回调
+ * 与onBFCacheRestore类似，指标在回调中结算上一个路由的值并重新开始计算
+ * @param {onSoftNavigationCallback} cb - 软导航回调函数
+ */
+export const onSoftNavigation = (cb: onSoftNavigationCallback) => {
+    callbacks.push(cb)
+}
+
+/**
+ * 通知所有指标发生了软导航
+ * 浏览器无法感知单页应用的路由切换，由路由监控在地址变化时调用
+ * @param {string} [from] - 上一个路由的地址，结算的指标据此上报所属路径
+ */
+export const triggerSoftNavigation = (from?: string) => {
+    softNavigationTime = performance.now()
+    previousPath = from ? new URL(from, location.href).pathname : undefined
+
+    try {
+        callbacks.forEach(cb => cb())
+    } finally {
+        previousPath = undefined
+    }
+}
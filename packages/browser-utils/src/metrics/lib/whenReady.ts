@@ -0,0 +1,20 @@
+import { whenActivated } from './whenActivated'
+
+/**
+ * 等待页面「完全就绪」后执行回调（适配预渲染、加载中、已完成三种状态）
+ * 核心目的：确保 Navigation Timing API 数据完全就绪（所有属性已填充），避免数据不全
+ * @param {() => void} callback - 页面就绪后执行的回调函数
+ */
+export const whenReady = (callback: () => void) => {
+    if (document.prerendering) {
+        // 场景1：页面处于预渲染状态 → 等待页面激活后，递归调用whenReady（激活后重新判定状态）
+        whenActivated(() => whenReady(callback))
+    } else if (document.readyState !== 'complete') {
+        // 场景2：页面未完全加载（readyState≠complete）→ 监听load事件，加载完成后执行
+        // 捕获阶段触发（true）：优先级更高，避免被其他事件 handler 阻塞
+        addEventListener('load', () => whenReady(callback), true)
+    } else {
+        // 场景3：页面已完全加载 → 延迟0ms执行（推入微任务队列，确保在loadEventEnd后执行）
+        setTimeout(callback, 0)
+    }
+}
@@ -5,6 +5,7 @@ import { initMetric } from './lib/initMetric.js'
 import { observe } from './lib/observe.js'
 import { onHidden } from './lib/onHidden.js'
 import { runOnce } from './lib/runOnce.js'
+import { onSoftNavigation } from './lib/softNavigation.js'
 import { onFCP } from './onFCP.js'
 import { CLSMetric, MetricRatingThresholds, ReportOpts } from './types'
 
@@ -116,7 +117,18 @@ export const onCLS = (onReport: (metric: CLSMetric) => void, opts?: ReportOpts)
                     doubleRAF(() => report())
                 })
 
-                // 9. 立即触发一次上报（setTimeout 0推入微任务队列）
+                // 9. 监听软导航（单页应用路由切换）：结算上一个路由的CLS后重新开始计算
+                onSoftNavigation(() => {
+                    handleEntries(po.takeRecords() as CLSMetric['entries'])
+                    report(true)
+
+                    sessionValue = 0
+                    sessionEntries = []
+                    metric = initMetric('CLS', 0)
+                    report = bindReporter(onReport, metric, CLSThresholds, opts!.reportAllChanges)
+                })
+
+                // 10. 立即触发一次上报（setTimeout 0推入微任务队列）
                 // 目的：保证初始状态的CLS值（0）被上报，避免无布局偏移时数据缺失
                 setTimeout(report, 0)
             }
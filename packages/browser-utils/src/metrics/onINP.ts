@@ -10,6 +10,7 @@ import {
 import { observe } from './lib/observe.js'
 import { onHidden } from './lib/onHidden.js'
 import { initInteractionCountPolyfill } from './lib/polyfills/interactionCountPolyfill.js'
+import { onSoftNavigation } from './lib/softNavigation.js'
 import { whenActivated } from './lib/whenActivated.js'
 import { whenIdle } from './lib/whenIdle.js'
 import { INPMetric, MetricRatingThresholds, ReportOpts } from './types.js'
@@ -55,26 +56,38 @@ export const onINP = (onReport: (metric: INPMetric) => void, opts?: ReportOpts)
         // 5. 声明上报函数（后续由bindReporter初始化）
         let report: ReturnType<typeof bindReporter>
 
+        // 等待空闲时处理的交互条目；软导航时需同步处理完，避免上一个路由的交互被计入新路由
+        let pendingEntries: INPMetric['entries'] = []
+
+        /**
+         * 处理所有待处理的交互条目，并按最新的p98最长交互更新INP
+         */
+        const processPendingEntries = () => {
+            const entries = pendingEntries
+            pendingEntries = []
+
+            // 6.1 逐个处理交互条目：合并同一交互的条目、筛选最长交互（存入longestInteractionList）
+            entries.forEach(processInteractionEntry)
+
+            // 6.2 估算p98分位数的最长交互（INP核心逻辑）
+            const inp = estimateP98LongestInteraction()
+
+            // 6.3 仅当INP值变化时，更新指标并上报（避免重复上报相同值）
+            if (inp && inp.latency !== metric.value) {
+                metric.value = inp.latency // 更新INP值为p98分位数的交互延迟
+                metric.entries = inp.entries // 记录该交互对应的所有条目（用于归因）
+                report() // 触发上报（由bindReporter控制是否上报）
+            }
+        }
+
         /**
          * 处理交互条目数组（核心：后台计算INP值）
          * @param {INPMetric['entries']} entries - event/first-input类型的交互条目数组
          */
         const handleEntries = (entries: INPMetric['entries']) => {
+            pendingEntries = pendingEntries.concat(entries)
             // 6. 空闲时处理交互数据（whenIdle：浏览器空闲+页面隐藏兜底，避免阻塞主线程）
-            whenIdle(() => {
-                // 6.1 逐个处理交互条目：合并同一交互的条目、筛选最长交互（存入longestInteractionList）
-                entries.forEach(processInteractionEntry)
-
-                // 6.2 估算p98分位数的最长交互（INP核心逻辑）
-                const inp = estimateP98LongestInteraction()
-
-                // 6.3 仅当INP值变化时，更新指标并上报（避免重复上报相同值）
-                if (inp && inp.latency !== metric.value) {
-                    metric.value = inp.latency // 更新INP值为p98分位数的交互延迟
-                    metric.entries = inp.entries // 记录该交互对应的所有条目（用于归因）
-                    report() // 触发上报（由bindReporter控制是否上报）
-                }
-            })
+            whenIdle(processPendingEntries)
         }
 
         // 7. 监听'event'类型性能条目（核心：捕获大部分用户交互，如点击、输入、触摸）
@@ -109,6 +122,18 @@ export const onINP = (onReport: (metric: INPMetric) => void, opts?: ReportOpts)
                 // 重新初始化上报函数
                 report = bindReporter(onReport, metric, INPThresholds, opts!.reportAllChanges)
             })
+
+            // 9.4 监听软导航（单页应用路由切换）：结算上一个路由的INP后重新开始计算
+            onSoftNavigation(() => {
+                // 同步处理观察器与空闲队列中尚未处理的交互，再结算上一个路由
+                pendingEntries = pendingEntries.concat(po.takeRecords() as INPMetric['entries'])
+                processPendingEntries()
+                report(true)
+
+                resetInteractions()
+                metric = initMetric('INP')
+                report = bindReporter(onReport, metric, INPThresholds, opts!.reportAllChanges)
+            })
         }
     })
 }
@@ -3,7 +3,7 @@ import { bindReporter } from './lib/bindReporter.js'
 import { getActivationStart } from './lib/getActivationStart.js'
 import { getNavigationEntry } from './lib/getNavigationEntry.js'
 import { initMetric } from './lib/initMetric.js'
-import { whenActivated } from './lib/whenActivated.js'
+import { whenReady } from './lib/whenReady.js'
 import { MetricRatingThresholds, ReportOpts, TTFBMetric } from './types.js'
 
 /**
@@ -15,25 +15,6 @@ import { MetricRatingThresholds, ReportOpts, TTFBMetric } from './types.js'
  */
 export const TTFBThresholds: MetricRatingThresholds = [800, 1800]
 
-/**
- * 等待页面「完全就绪」后执行回调（适配预渲染、加载中、已完成三种状态）
- * 核心目的：确保 Navigation Timing API 数据完全就绪（所有属性已填充），避免数据不全
- * @param {() => void} callback - 页面就绪后执行的回调函数
- */
-const whenReady = (callback: () => void) => {
-    if (document.prerendering) {
-        // 场景1：页面处于预渲染状态 → 等待页面激活后，递归调用whenReady（激活后重新判定状态）
-        whenActivated(() => whenReady(callback))
-    } else if (document.readyState !== 'complete') {
-        // 场景2：页面未完全加载（readyState≠complete）→ 监听load事件，加载完成后执行
-        // 捕获阶段触发（true）：优先级更高，避免被其他事件 handler 阻塞
-        addEventListener('load', () => whenReady(callback), true)
-    } else {
-        // 场景3：页面已完全加载 → 延迟0ms执行（推入微任务队列，确保在loadEventEnd后执行）
-        setTimeout(callback, 0)
-    }
-}
-
 /**
  * 监听并上报TTFB（首字节时间）指标的核心函数
  * TTFB定义：从页面时间原点到浏览器接收服务器响应首字节的时间差，反映网络+服务器响应性能
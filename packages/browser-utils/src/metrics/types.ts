@@ -36,6 +36,11 @@ declare global {
         durationThreshold?: number
     }
 
+    // https://w3c.github.io/resource-timing/#dom-performanceresourcetiming-renderblockingstatus
+    interface PerformanceResourceTiming {
+        renderBlockingStatus?: 'blocking' | 'non-blocking'
+    }
+
     // https://wicg.github.io/nav-speculation/prerendering.html#performance-navigation-timing-extension
     interface PerformanceNavigationTiming {
         activationStart?: number
@@ -75,5 +80,30 @@ declare global {
     interface PerformanceLongAnimationFrameTiming extends PerformanceEntry {
         renderStart: DOMHighResTimeStamp
         duration: DOMHighResTimeStamp
+        blockingDuration: DOMHighResTimeStamp
+        scripts: PerformanceScriptTiming[]
+    }
+
+    // https://w3c.github.io/long-animation-frame/#sec-PerformanceScriptTiming
+    interface PerformanceScriptTiming extends PerformanceEntry {
+        invoker: string
+        invokerType: 'classic-script' | 'module-script' | 'event-listener' | 'user-callback' | 'resolve-promise' | 'reject-promise'
+        sourceURL: string
+        sourceFunctionName: string
+        sourceCharPosition: number
+        forcedStyleAndLayoutDuration: DOMHighResTimeStamp
+    }
+
+    // https://w3c.github.io/longtasks/#sec-TaskAttributionTiming
+    interface TaskAttributionTiming extends PerformanceEntry {
+        containerType: 'iframe' | 'embed' | 'object' | 'window'
+        containerSrc: string
+        containerId: string
+        containerName: string
+    }
+
+    // https://w3c.github.io/longtasks/#sec-PerformanceLongTaskTiming
+    interface PerformanceLongTaskTiming extends PerformanceEntry {
+        attribution: TaskAttributionTiming[]
     }
 }
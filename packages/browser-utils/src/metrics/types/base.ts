@@ -48,9 +48,10 @@ export interface Metric {
      * - 'back-forward-cache'：页面从bfcache（后退/前进缓存）中恢复时；
      * - 'back_forward' 会重命名为 'back-forward' 以保证命名一致性；
      * - 'prerender'：页面为预渲染页面时；
-     * - 'restore'：页面被浏览器丢弃后，由用户手动恢复时。
+     * - 'restore'：页面被浏览器丢弃后，由用户手动恢复时；
+     * - 'soft-navigation'：单页应用路由切换后重新开始计算的指标。
      */
-    navigationType: 'navigate' | 'reload' | 'back-forward' | 'back-forward-cache' | 'prerender' | 'restore'
+    navigationType: 'navigate' | 'reload' | 'back-forward' | 'back-forward-cache' | 'prerender' | 'restore' | 'soft-navigation'
 }
 
 export type MetricType = CLSMetric | LCPMetric | FCPMetric | FIDMetric | TTFBMetric | INPMetric
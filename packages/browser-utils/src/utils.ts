@@ -0,0 +1,18 @@
+import { getClient } from '@sharing/monitor-sdk-core'
+
+/**
+ * 是否为 SDK 自身发往 dsn 的上报请求，采集请求与资源时需要排除，否则会循环上报
+ */
+export function isMonitorRequest(url: string) {
+    const dsn = getClient()?.getOptions().dsn
+
+    if (!dsn) {
+        return false
+    }
+
+    try {
+        return new URL(url, location.href).href.startsWith(new URL(dsn, location.href).href)
+    } catch {
+        return url.startsWith(dsn)
+    }
+}
@@ -1,21 +1,78 @@
-import { Metrics } from '@sharing/monitor-sdk-browser-utils'
-import { Integration, Monitoring } from '@sharing/monitor-sdk-core'
+import { getBrowserInfo, Metrics, MetricsOptions, onHidden } from '@sharing/monitor-sdk-browser-utils'
+import { addEventProcessor, IIntegration, Monitoring, MonitorOptions, SessionStorage } from '@sharing/monitor-sdk-core'
 
+import { Breadcrumbs, BreadcrumbsOptions } from './tracing/breadcrumbsIntegration'
 import { Errors } from './tracing/errorsIntegration'
-import { BrowserTransport } from './transport'
+import { Frustration, FrustrationOptions } from './tracing/frustrationIntegration'
+import { Http, HttpOptions } from './tracing/httpIntegration'
+import { PageViews } from './tracing/pageViewIntegration'
+import { Route, RouteOptions } from './tracing/routeIntegration'
+import { Track, TrackOptions } from './tracing/trackIntegration'
+import { WhiteScreen, WhiteScreenOptions } from './tracing/whiteScreenIntegration'
+import { BrowserTransport, BrowserTransportOptions } from './transport'
 
-export function init(options: { dsn: string; integrations?: Integration[] }) {
+export interface BrowserOptions extends MonitorOptions {
+    breadcrumbs?: BreadcrumbsOptions
+    frustration?: FrustrationOptions
+    http?: HttpOptions
+    metrics?: MetricsOptions
+    route?: RouteOptions
+    track?: TrackOptions
+    transport?: BrowserTransportOptions
+    whiteScreen?: WhiteScreenOptions
+}
+
+/**
+ * 隐私模式等场景下访问 localStorage 会抛错，此时会话只保存在内存中
+ */
+function getSessionStorage(): SessionStorage | undefined {
+    try {
+        return window.localStorage
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * 浏览器端默认安装的集成，可通过 integrations 传函数过滤，或传 defaultIntegrations: false 全部关闭
+ * 路由切换时先结算上一个页面访问的指标，再开始新的页面访问，其余集成上报的事件才能带上 pageViewId，因此 Route 需排在 PageViews 之前
+ */
+export function getDefaultIntegrations(options: BrowserOptions): IIntegration[] {
+    return [
+        new Route(options.route),
+        new PageViews(),
+        new Breadcrumbs(options.breadcrumbs),
+        new Errors(),
+        new Http(options.http),
+        new Metrics(options.metrics),
+        new WhiteScreen(options.whiteScreen),
+        new Track(options.track),
+        new Frustration(options.frustration),
+    ]
+}
+
+export function init(options: BrowserOptions) {
     const monitoring = new Monitoring({
-        dsn: options.dsn,
-        integrations: options.integrations,
+        ...options,
+        defaultIntegrations: options.defaultIntegrations ?? getDefaultIntegrations(options),
+        session: options.session === false ? false : { storage: getSessionStorage(), ...options.session },
     })
 
-    const transport = new BrowserTransport(options.dsn)
+    // 浏览器信息在 beforeSend 之前加入，beforeSend 可以清理其中的敏感信息（如 referrer 中的 token）；
+    // 事件自身的字段优先，例如软导航时结算的指标带的是上一个路由的 path
+    addEventProcessor(event => ({ ...getBrowserInfo(), ...event }))
 
-    monitoring.init(transport)
+    monitoring.init(new BrowserTransport(options.dsn, options.transport))
 
-    new Errors(transport).init()
-    new Metrics(transport).init()
+    // 页面隐藏或卸载时上报去重窗口内被抑制的次数，卸载时同时上报会话结束
+    onHidden(() => monitoring.flushSuppressed())
+    addEventListener('pagehide', () => {
+        monitoring.flushSuppressed()
+        monitoring.flushSession()
+    })
 
     return monitoring
 }
+
+export { Replay } from './tracing/replayIntegration'
+export type { ReplayOptions } from './tracing/replayIntegration'
@@ -0,0 +1,66 @@
+export interface HistoryChangeData {
+    from: string
+    to: string
+}
+
+type HistoryHandler = (data: HistoryChangeData) => void
+
+const handlers: HistoryHandler[] = []
+
+let instrumented = false
+
+let lastHref = ''
+
+function notify() {
+    const to = location.href
+
+    if (to === lastHref) {
+        return
+    }
+
+    const from = lastHref
+    lastHref = to
+
+    handlers.forEach(handler => {
+        try {
+            handler({ from, to })
+        } catch {}
+    })
+}
+
+function wrapHistoryMethod(method: 'pushState' | 'replaceState') {
+    const original = history[method]
+
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+        const result = original.apply(this, args)
+        notify()
+        return result
+    }
+}
+
+function instrumentHistory() {
+    lastHref = location.href
+
+    wrapHistoryMethod('pushState')
+    wrapHistoryMethod('replaceState')
+
+    addEventListener('popstate', notify)
+    addEventListener('hashchange', notify)
+}
+
+/**
+ * 注册地址变化（pushState / replaceState / popstate / hashchange）的处理函数，返回取消注册的函数
+ */
+export function addHistoryHandler(handler: HistoryHandler) {
+    handlers.push(handler)
+
+    if (!instrumented) {
+        instrumented = true
+        instrumentHistory()
+    }
+
+    return () => {
+        const index = handlers.indexOf(handler)
+        index > -1 && handlers.splice(index, 1)
+    }
+}
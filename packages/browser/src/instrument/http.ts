@@ -0,0 +1,267 @@
+/**
+ * 请求结果：complete 收到响应、error 网络错误、abort 被取消、timeout 超时
+ */
+export type HttpRequestResult = 'complete' | 'error' | 'abort' | 'timeout'
+
+export interface HttpRequestData {
+    type: 'fetch' | 'xhr'
+    method: string
+    url: string
+    /**
+     * 未收到响应或响应不透明时为 0
+     */
+    status: number
+    result: HttpRequestResult
+    /**
+     * 是否为 no-cors 请求的不透明响应，此时读取不到状态码
+     */
+    opaque?: boolean
+    startTime: number
+    endTime: number
+    /**
+     * 请求体字节数，无法计算（如 ReadableStream）时为空
+     */
+    requestSize?: number
+    /**
+     * 响应体字节数，取自 Content-Length，跨域未暴露该头时为空
+     */
+    responseSize?: number
+    error?: string
+}
+
+export type HttpStartData = Pick<HttpRequestData, 'type' | 'method' | 'url' | 'startTime'>
+
+type HttpHandler = (data: HttpRequestData) => void
+
+type HttpStartHandler = (data: HttpStartData) => void
+
+const handlers: HttpHandler[] = []
+
+const startHandlers: HttpStartHandler[] = []
+
+let instrumented = false
+
+function notify(data: HttpRequestData) {
+    handlers.forEach(handler => {
+        try {
+            handler(data)
+        } catch {}
+    })
+}
+
+function notifyStart(data: HttpStartData) {
+    startHandlers.forEach(handler => {
+        try {
+            handler(data)
+        } catch {}
+    })
+}
+
+function getBodySize(body: unknown) {
+    if (body === undefined || body === null) {
+        return
+    }
+
+    if (typeof body === 'string') {
+        return new Blob([body]).size
+    }
+
+    if (body instanceof Blob) {
+        return body.size
+    }
+
+    if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+        return body.byteLength
+    }
+
+    // FormData 与 ReadableStream 无法在不读取内容的情况下得到大小
+    return body instanceof URLSearchParams ? new Blob([body.toString()]).size : undefined
+}
+
+function getContentLength(value: string | null) {
+    const length = value === null ? NaN : Number(value)
+    return isNaN(length) ? undefined : length
+}
+
+const XHR_ERRORS: Record<Exclude<HttpRequestResult, 'complete'>, string> = {
+    error: 'Network Error',
+    abort: 'Request Aborted',
+    timeout: 'Request Timeout',
+}
+
+/**
+ * fetch 被拒绝的原因：AbortSignal.timeout 超时抛出 TimeoutError，主动取消时 signal 为 aborted
+ */
+function getFetchErrorResult(error: unknown, signal?: AbortSignal | null): HttpRequestResult {
+    const name = error instanceof Error || error instanceof DOMException ? error.name : ''
+
+    if (name === 'TimeoutError') {
+        return 'timeout'
+    }
+
+    return name === 'AbortError' || signal?.aborted ? 'abort' : 'error'
+}
+
+function parseFetchArgs(input: RequestInfo | URL, init?: RequestInit) {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const method = init?.method || (input instanceof Request ? input.method : 'GET')
+    const signal = init?.signal || (input instanceof Request ? input.signal : null)
+
+    return { url, method: method.toUpperCase(), signal }
+}
+
+function instrumentFetch() {
+    if (typeof window.fetch !== 'function') {
+        return
+    }
+
+    const originalFetch = window.fetch
+
+    window.fetch = function (input: RequestInfo | URL, init?: RequestInit) {
+        const { url, method, signal } = parseFetchArgs(input, init)
+        const requestSize = getBodySize(init?.body)
+        const startTime = Date.now()
+
+        notifyStart({ type: 'fetch', method, url, startTime })
+
+        return originalFetch.call(window, input, init).then(
+            (response: Response) => {
+                notify({
+                    type: 'fetch',
+                    method,
+                    url,
+                    status: response.status,
+                    result: 'complete',
+                    opaque: response.type === 'opaque' || response.type === 'opaqueredirect',
+                    startTime,
+                    endTime: Date.now(),
+                    requestSize,
+                    responseSize: getContentLength(response.headers.get('Content-Length')),
+                })
+                return response
+            },
+            (error: unknown) => {
+                notify({
+                    type: 'fetch',
+                    method,
+                    url,
+                    status: 0,
+                    result: getFetchErrorResult(error, signal),
+                    startTime,
+                    endTime: Date.now(),
+                    requestSize,
+                    error: String(error),
+                })
+                throw error
+            }
+        )
+    }
+}
+
+interface XHRRequest {
+    method: string
+    url: string
+    result: HttpRequestResult
+    // send 之后才有
+    startTime?: number
+    requestSize?: number
+}
+
+function instrumentXHR() {
+    if (typeof XMLHttpRequest !== 'function') {
+        return
+    }
+
+    // 同一个 XHR 实例可以重复 open / send，每次 open 时替换为新的请求信息
+    const requests = new WeakMap<XMLHttpRequest, XHRRequest>()
+    const proto = XMLHttpRequest.prototype
+    const originalOpen = proto.open
+    const originalSend = proto.send
+
+    // error / abort / timeout 都在 loadend 之前触发
+    function handleFailure(this: XMLHttpRequest, event: ProgressEvent) {
+        const request = requests.get(this)
+
+        if (request) {
+            request.result = event.type as HttpRequestResult
+        }
+    }
+
+    function handleLoadEnd(this: XMLHttpRequest) {
+        const request = requests.get(this)
+
+        if (!request || request.startTime === undefined) {
+            return
+        }
+
+        const { method, url, startTime, requestSize, result } = request
+
+        notify({
+            type: 'xhr',
+            method,
+            url,
+            status: this.status,
+            result,
+            startTime,
+            endTime: Date.now(),
+            requestSize,
+            responseSize: getContentLength(this.getResponseHeader('Content-Length')),
+            ...(result !== 'complete' && { error: XHR_ERRORS[result] }),
+        })
+    }
+
+    proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+        // 监听只在首次 open 时添加一次，之后的请求复用
+        if (!requests.has(this)) {
+            this.addEventListener('error', handleFailure)
+            this.addEventListener('abort', handleFailure)
+            this.addEventListener('timeout', handleFailure)
+            this.addEventListener('loadend', handleLoadEnd)
+        }
+
+        requests.set(this, { method: method.toUpperCase(), url: String(url), result: 'complete' })
+        return (originalOpen as (...args: unknown[]) => void).apply(this, [method, url, ...rest])
+    } as typeof proto.open
+
+    proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        const request = requests.get(this)
+
+        if (request) {
+            request.startTime = Date.now()
+            request.requestSize = getBodySize(body)
+
+            notifyStart({ type: 'xhr', method: request.method, url: request.url, startTime: request.startTime })
+        }
+
+        return originalSend.call(this, body)
+    }
+}
+
+function addHandler<T>(list: T[], handler: T) {
+    list.push(handler)
+
+    if (!instrumented) {
+        instrumented = true
+        instrumentFetch()
+        instrumentXHR()
+    }
+
+    return () => {
+        const index = list.indexOf(handler)
+        index > -1 && list.splice(index, 1)
+    }
+}
+
+/**
+ * 注册 fetch / XMLHttpRequest 请求完成后的处理函数，首次注册时包装两者；返回取消注册的函数
+ */
+export function addHttpHandler(handler: HttpHandler) {
+    return addHandler(handlers, handler)
+}
+
+/**
+ * 注册 fetch / XMLHttpRequest 请求发出时的处理函数；返回取消注册的函数
+ */
+export function addHttpStartHandler(handler: HttpStartHandler) {
+    return addHandler(startHandlers, handler)
+}
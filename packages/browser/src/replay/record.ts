@@ -0,0 +1,213 @@
+import {
+    getInputValue,
+    getTextContent,
+    isBlocked,
+    isInputElement,
+    NodeMirror,
+    SerializedNode,
+    serializeNode,
+    SnapshotOptions,
+    takeSnapshot,
+} from './snapshot'
+
+export type ReplayEvent =
+    | { type: 'snapshot'; timestamp: number; data: ReturnType<typeof takeSnapshot> }
+    | { type: 'mutation'; timestamp: number; data: MutationData }
+    | { type: 'scroll'; timestamp: number; data: { id: number; x: number; y: number } }
+    | { type: 'mouse'; timestamp: number; data: { kind: 'move' | 'click'; x: number; y: number; id?: number } }
+    | { type: 'input'; timestamp: number; data: { id: number; value: string; checked?: boolean } }
+    | { type: 'viewport'; timestamp: number; data: { width: number; height: number } }
+
+interface MutationData {
+    adds: Array<{ parentId: number; nextId: number; node: SerializedNode }>
+    removes: Array<{ parentId: number; id: number }>
+    texts: Array<{ id: number; text: string }>
+    attributes: Array<{ id: number; name: string; value: string | null }>
+}
+
+const MOUSE_MOVE_INTERVAL = 50
+
+const SCROLL_INTERVAL = 100
+
+/**
+ * 按固定间隔节流，保证间隔内最后一次调用也会执行
+ */
+function throttle<T extends unknown[]>(fn: (...args: T) => void, interval: number) {
+    let last = 0
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    return (...args: T) => {
+        const remaining = interval - (Date.now() - last)
+
+        if (timer) {
+            clearTimeout(timer)
+            timer = null
+        }
+
+        if (remaining <= 0) {
+            last = Date.now()
+            fn(...args)
+        } else {
+            timer = setTimeout(() => {
+                last = Date.now()
+                timer = null
+                fn(...args)
+            }, remaining)
+        }
+    }
+}
+
+/**
+ * 录制页面：先做全量快照，之后记录 DOM 变化、滚动、鼠标与输入，所有事件交给 emit 处理
+ */
+export class Recorder {
+    private mirror = new NodeMirror()
+
+    private observer: MutationObserver | null = null
+
+    private listeners: Array<() => void> = []
+
+    constructor(
+        private options: SnapshotOptions,
+        private emit: (event: ReplayEvent) => void
+    ) {}
+
+    start() {
+        this.takeFullSnapshot()
+
+        this.observer = new MutationObserver(this.handleMutations)
+        this.observer.observe(document, { childList: true, subtree: true, attributes: true, characterData: true })
+
+        this.listen(document, 'scroll', throttle(this.handleScroll, SCROLL_INTERVAL))
+        this.listen(document, 'mousemove', throttle(this.handleMouseMove, MOUSE_MOVE_INTERVAL))
+        this.listen(document, 'click', this.handleClick)
+        this.listen(document, 'input', this.handleInput)
+        this.listen(document, 'change', this.handleInput)
+        this.listen(window, 'resize', throttle(this.handleResize, SCROLL_INTERVAL))
+    }
+
+    stop() {
+        this.observer?.disconnect()
+        this.observer = null
+        this.listeners.forEach(remove => remove())
+        this.listeners = []
+    }
+
+    /**
+     * 全量快照会重新分配节点 id，之前的增量事件不再适用
+     */
+    takeFullSnapshot() {
+        // 快照之前尚未分发的变化已经包含在快照中
+        this.observer?.takeRecords()
+        this.emit({ type: 'snapshot', timestamp: Date.now(), data: takeSnapshot(this.mirror, this.options) })
+    }
+
+    private listen(target: EventTarget, type: string, listener: (event: Event) => void) {
+        target.addEventListener(type, listener, { capture: true, passive: true })
+        this.listeners.push(() => target.removeEventListener(type, listener, { capture: true }))
+    }
+
+    private handleMutations = (records: MutationRecord[]) => {
+        const data: MutationData = { adds: [], removes: [], texts: [], attributes: [] }
+
+        records.forEach(record => {
+            const { target } = record
+
+            // 未录制的节点（被屏蔽元素的子树、脚本等）的变化也不录制
+            if (!this.mirror.has(target) || (record.type === 'childList' && isBlocked(target, this.options))) {
+                return
+            }
+
+            if (record.type === 'characterData') {
+                data.texts.push({ id: this.mirror.getId(target), text: getTextContent(target, this.options) })
+            } else if (record.type === 'attributes' && record.attributeName && !record.attributeName.startsWith('on')) {
+                const value = (target as Element).getAttribute(record.attributeName)
+
+                data.attributes.push({
+                    id: this.mirror.getId(target),
+                    name: record.attributeName,
+                    value: record.attributeName === 'value' && isInputElement(target) ? getInputValue(target, this.options) : value,
+                })
+            } else if (record.type === 'childList') {
+                record.removedNodes.forEach(node => {
+                    if (this.mirror.has(node)) {
+                        data.removes.push({ parentId: this.mirror.getId(target), id: this.mirror.getId(node) })
+                        // 节点可能被移动到别处，重新加入时需要重新序列化
+                        this.mirror.remove(node)
+                    }
+                })
+
+                // 倒序处理，保证引用的后一个兄弟节点已经序列化，回放时按顺序插入即可
+                Array.from(record.addedNodes)
+                    .reverse()
+                    .forEach(node => {
+                        // 同一批变化中节点可能先被加入又被移走，或已随父节点一起序列化
+                        if (this.mirror.has(node) || !node.isConnected) {
+                            return
+                        }
+
+                        const serialized = serializeNode(node, this.mirror, this.options)
+
+                        if (serialized) {
+                            data.adds.push({
+                                parentId: this.mirror.getId(target),
+                                nextId: this.mirror.getId(node.nextSibling),
+                                node: serialized,
+                            })
+                        }
+                    })
+            }
+        })
+
+        if (data.adds.length || data.removes.length || data.texts.length || data.attributes.length) {
+            this.emit({ type: 'mutation', timestamp: Date.now(), data })
+        }
+    }
+
+    private handleScroll = (event: Event) => {
+        const target = event.target === document ? document.documentElement : (event.target as Element)
+        const x = target === document.documentElement ? window.scrollX : target.scrollLeft
+        const y = target === document.documentElement ? window.scrollY : target.scrollTop
+
+        this.emit({ type: 'scroll', timestamp: Date.now(), data: { id: this.mirror.getId(target), x, y } })
+    }
+
+    private handleMouseMove = (event: Event) => {
+        const { clientX, clientY } = event as MouseEvent
+
+        this.emit({ type: 'mouse', timestamp: Date.now(), data: { kind: 'move', x: clientX, y: clientY } })
+    }
+
+    private handleClick = (event: Event) => {
+        const { clientX, clientY, target } = event as MouseEvent
+
+        this.emit({
+            type: 'mouse',
+            timestamp: Date.now(),
+            data: { kind: 'click', x: clientX, y: clientY, id: this.mirror.getId(target as Node | null) },
+        })
+    }
+
+    private handleInput = (event: Event) => {
+        const target = event.target as Node
+
+        if (!isInputElement(target) || !this.mirror.has(target)) {
+            return
+        }
+
+        this.emit({
+            type: 'input',
+            timestamp: Date.now(),
+            data: {
+                id: this.mirror.getId(target),
+                value: getInputValue(target, this.options),
+                ...(target instanceof HTMLInputElement &&
+                    (target.type === 'checkbox' || target.type === 'radio') && { checked: target.checked }),
+            },
+        })
+    }
+
+    private handleResize = () => {
+        this.emit({ type: 'viewport', timestamp: Date.now(), data: { width: window.innerWidth, height: window.innerHeight } })
+    }
+}
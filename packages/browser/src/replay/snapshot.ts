@@ -0,0 +1,178 @@
+export interface SerializedElement {
+    id: number
+    type: 'element'
+    tagName: string
+    attributes: Record<string, string>
+    children: SerializedNode[]
+}
+
+export interface SerializedText {
+    id: number
+    type: 'text'
+    text: string
+}
+
+export type SerializedNode = SerializedElement | SerializedText
+
+export interface SnapshotOptions {
+    /**
+     * 是否遮盖所有输入框的值（包括 textarea 与可编辑元素内的文本），默认 true；密码框始终遮盖
+     */
+    maskAllInputs?: boolean
+    /**
+     * 命中该选择器的元素内的文本会被遮盖
+     */
+    maskTextSelector?: string
+    /**
+     * 命中该选择器的元素只记录占位，不记录内容
+     */
+    blockSelector?: string
+}
+
+// 不影响页面展示的节点不录制，脚本内容也可能包含敏感信息
+const IGNORED_TAGS = ['SCRIPT', 'NOSCRIPT', 'TEMPLATE']
+
+export const mask = (value: string) => value.replace(/\S/g, '*')
+
+/**
+ * 节点到录制 id 的映射，增量变化通过 id 引用快照中的节点
+ */
+export class NodeMirror {
+    private ids = new WeakMap<Node, number>()
+
+    private nextId = 1
+
+    getId(node: Node | null) {
+        return (node && this.ids.get(node)) || 0
+    }
+
+    has(node: Node) {
+        return this.ids.has(node)
+    }
+
+    add(node: Node) {
+        const id = this.nextId++
+        this.ids.set(node, id)
+        return id
+    }
+
+    remove(node: Node) {
+        this.ids.delete(node)
+    }
+
+    reset() {
+        this.ids = new WeakMap()
+        this.nextId = 1
+    }
+}
+
+const matches = (element: Element | null, selector?: string) => {
+    try {
+        return !!selector && !!element && !!element.closest(selector)
+    } catch {
+        return false
+    }
+}
+
+export const isBlocked = (node: Node, options: SnapshotOptions) => node instanceof Element && matches(node, options.blockSelector)
+
+export const isInputElement = (node: Node): node is HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement =>
+    node instanceof HTMLInputElement || node instanceof HTMLTextAreaElement || node instanceof HTMLSelectElement
+
+/**
+ * 输入框的值按配置遮盖，密码框无论配置如何都遮盖
+ */
+export const getInputValue = (element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, options: SnapshotOptions) => {
+    const masked = (options.maskAllInputs ?? true) || (element instanceof HTMLInputElement && element.type === 'password')
+
+    return masked ? mask(element.value) : element.value
+}
+
+/**
+ * textarea 的文本子节点与可编辑元素内的文本同样是用户输入，遮盖输入框时一并遮盖
+ */
+const isEditableText = (node: Node) => {
+    const parent = node.parentElement
+
+    return !!parent && (parent instanceof HTMLTextAreaElement || parent.isContentEditable)
+}
+
+export const getTextContent = (node: Node, options: SnapshotOptions) => {
+    const text = node.textContent || ''
+    const masked = matches(node.parentElement, options.maskTextSelector) || ((options.maskAllInputs ?? true) && isEditableText(node))
+
+    return masked ? mask(text) : text
+}
+
+function serializeAttributes(element: Element, options: SnapshotOptions) {
+    const attributes: Record<string, string> = {}
+
+    for (const { name, value } of Array.from(element.attributes)) {
+        // 内联事件处理函数不参与回放
+        if (!name.startsWith('on')) {
+            attributes[name] = value
+        }
+    }
+
+    if (isInputElement(element)) {
+        attributes.value = getInputValue(element, options)
+    }
+
+    if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio') && element.checked) {
+        attributes.checked = ''
+    }
+
+    if (isBlocked(element, options)) {
+        const { width, height } = element.getBoundingClientRect()
+        attributes.style = `width:${width}px;height:${height}px`
+    }
+
+    return attributes
+}
+
+/**
+ * 序列化节点及其子树，并为每个节点分配 id；返回 null 的节点（脚本、注释等）不录制
+ */
+export function serializeNode(node: Node, mirror: NodeMirror, options: SnapshotOptions): SerializedNode | null {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return { id: mirror.add(node), type: 'text', text: getTextContent(node, options) }
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE || IGNORED_TAGS.includes(node.nodeName)) {
+        return null
+    }
+
+    const element = node as Element
+    const blocked = isBlocked(element, options)
+    const serialized: SerializedElement = {
+        id: mirror.add(element),
+        type: 'element',
+        tagName: element.tagName.toLowerCase(),
+        attributes: serializeAttributes(element, options),
+        children: [],
+    }
+
+    if (!blocked) {
+        element.childNodes.forEach(child => {
+            const serializedChild = serializeNode(child, mirror, options)
+            serializedChild && serialized.children.push(serializedChild)
+        })
+    }
+
+    return serialized
+}
+
+/**
+ * 对整个页面做全量快照，重新分配所有节点的 id
+ */
+export function takeSnapshot(mirror: NodeMirror, options: SnapshotOptions) {
+    mirror.reset()
+
+    return {
+        node: serializeNode(document.documentElement, mirror, options),
+        width: window.innerWidth,
+        height: window.innerHeight,
+        scrollX: window.scrollX,
+        scrollY: window.scrollY,
+    }
+}
@@ -0,0 +1,97 @@
+import { getSelector, isMonitorRequest } from '@sharing/monitor-sdk-browser-utils'
+import { addBreadcrumb, addConsoleHandler, CaptureConsoleIntegration, IIntegration, Monitoring, serialize } from '@sharing/monitor-sdk-core'
+
+import { addHistoryHandler } from '../instrument/history'
+import { addHttpHandler } from '../instrument/http'
+
+export interface BreadcrumbsOptions {
+    /**
+     * 记录点击，默认开启
+     */
+    dom?: boolean
+    /**
+     * 记录路由变化，默认开启
+     */
+    history?: boolean
+    /**
+     * 记录 fetch / XMLHttpRequest 请求，默认开启
+     */
+    http?: boolean
+    /**
+     * 记录 console 输出，默认开启
+     */
+    console?: boolean
+}
+
+const handleClick = (event: MouseEvent) => {
+    addBreadcrumb({
+        category: 'ui.click',
+        message: getSelector(event.target as Node | null),
+    })
+}
+
+export class Breadcrumbs implements IIntegration {
+    name = 'Breadcrumbs'
+
+    private cleanups: Array<() => void> = []
+
+    constructor(private options: BreadcrumbsOptions = {}) {}
+
+    setup(client: Monitoring) {
+        const { dom = true, history = true, http = true, console: captureConsole = true } = this.options
+
+        if (dom) {
+            addEventListener('click', handleClick, true)
+            this.cleanups.push(() => removeEventListener('click', handleClick, true))
+        }
+
+        if (history) {
+            const removeHandler = addHistoryHandler(({ from, to }) => {
+                addBreadcrumb({
+                    category: 'navigation',
+                    data: { from, to },
+                })
+            })
+            this.cleanups.push(removeHandler)
+        }
+
+        if (http) {
+            const removeHandler = addHttpHandler(({ type, method, url, status, result, startTime, endTime, error }) => {
+                if (isMonitorRequest(url)) {
+                    return
+                }
+
+                addBreadcrumb({
+                    category: type,
+                    // 被取消的请求不算错误
+                    level: result === 'abort' ? 'warn' : error || status >= 400 ? 'error' : 'info',
+                    data: { method, url, status, result, duration: endTime - startTime },
+                })
+            })
+            this.cleanups.push(removeHandler)
+        }
+
+        if (captureConsole) {
+            const captureConsoleIntegration = client.getIntegration<CaptureConsoleIntegration>('CaptureConsole')
+
+            const removeHandler = addConsoleHandler((level, args) => {
+                // 已由 captureConsoleIntegration({ breadcrumbsOnly: true }) 记录
+                if (captureConsoleIntegration?.recordsBreadcrumb(level)) {
+                    return
+                }
+
+                addBreadcrumb({
+                    category: 'console',
+                    level,
+                    message: args.map(serialize).join(' '),
+                })
+            })
+            this.cleanups.push(removeHandler)
+        }
+    }
+
+    teardown() {
+        this.cleanups.forEach(cleanup => cleanup())
+        this.cleanups = []
+    }
+}
@@ -1,4 +1,5 @@
-import { Transport } from '@sharing/monitor-sdk-core'
+import { getSelector } from '@sharing/monitor-sdk-browser-utils'
+import { getBreadcrumbs, getFingerprint, IIntegration, Monitoring, parseStackFrames, serialize, Transport } from '@sharing/monitor-sdk-core'
 
 export interface OnUnhandleRejectionErrorPayload {
     type: string
@@ -7,28 +8,98 @@ export interface OnUnhandleRejectionErrorPayload {
     path: string
 }
 
-export class Errors {
-    constructor(private transport: Transport) {}
-
-    init() {
-        window.onerror = (message, source, lineno, colno, error) => {
-            this.transport.send({
-                event_type: 'error',
-                type: error?.name,
-                stack: error?.stack,
-                message,
-                path: window.location.pathname,
-            })
-        }
+/**
+ * 资源元素的地址：img / script / source 等取 src，link 取 href
+ */
+const getResourceUrl = (element: Element) => {
+    return (element as HTMLImageElement).currentSrc || element.getAttribute('src') || element.getAttribute('href') || ''
+}
+
+/**
+ * Promise 可以用任意值 reject，只有 Error 才有 message 和 stack
+ */
+const normalizeReason = (reason: unknown): { message: string; stack?: string } => {
+    if (reason instanceof Error) {
+        return { message: reason.message, stack: reason.stack }
+    }
+
+    return { message: serialize(reason) }
+}
 
-        window.onunhandledrejection = event => {
-            this.transport.send({
-                event_type: 'error',
-                type: 'unhandlerejection',
-                stack: event.reason.stack,
-                message: event.reason.message,
-                path: window.location.pathname,
-            })
+export class Errors implements IIntegration {
+    name = 'Errors'
+
+    private transport: Transport | null = null
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+
+        // 使用事件监听而不是覆盖 window.onerror / onunhandledrejection，不影响页面或其他库设置的处理函数
+        // 资源加载失败的 error 事件不冒泡，只能在捕获阶段监听
+        window.addEventListener('error', this.handleError, true)
+        window.addEventListener('unhandledrejection', this.handleRejection)
+    }
+
+    teardown() {
+        window.removeEventListener('error', this.handleError, true)
+        window.removeEventListener('unhandledrejection', this.handleRejection)
+        this.transport = null
+    }
+
+    private handleError = (event: Event) => {
+        const target = event.target
+
+        if (target instanceof Element) {
+            this.handleResourceError(target)
+        } else if (event instanceof ErrorEvent) {
+            this.handleRuntimeError(event)
         }
     }
+
+    private handleResourceError(target: Element) {
+        const url = getResourceUrl(target)
+
+        this.transport?.send({
+            event_type: 'error',
+            type: 'resource_error',
+            tagName: target.tagName.toLowerCase(),
+            url,
+            selector: getSelector(target),
+            fingerprint: getFingerprint('resource_error', url),
+            path: window.location.pathname,
+            breadcrumbs: getBreadcrumbs(),
+        })
+    }
+
+    private handleRuntimeError(event: ErrorEvent) {
+        const error: Error | undefined = event.error instanceof Error ? event.error : undefined
+        const frames = parseStackFrames(error?.stack)
+
+        this.transport?.send({
+            event_type: 'error',
+            type: error?.name,
+            stack: error?.stack,
+            frames,
+            fingerprint: getFingerprint(error?.name, event.message, frames),
+            message: event.message,
+            path: window.location.pathname,
+            breadcrumbs: getBreadcrumbs(),
+        })
+    }
+
+    private handleRejection = (event: PromiseRejectionEvent) => {
+        const { message, stack } = normalizeReason(event.reason)
+        const frames = parseStackFrames(stack)
+
+        this.transport?.send({
+            event_type: 'error',
+            type: 'unhandlerejection',
+            stack,
+            frames,
+            fingerprint: getFingerprint('unhandlerejection', message, frames),
+            message,
+            path: window.location.pathname,
+            breadcrumbs: getBreadcrumbs(),
+        })
+    }
 }
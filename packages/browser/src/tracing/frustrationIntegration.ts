@@ -0,0 +1,168 @@
+import { getSelector, isMonitorRequest } from '@sharing/monitor-sdk-browser-utils'
+import { addBreadcrumb, IIntegration, Monitoring, Transport } from '@sharing/monitor-sdk-core'
+
+import { addHistoryHandler } from '../instrument/history'
+import { addHttpStartHandler } from '../instrument/http'
+
+export interface FrustrationOptions {
+    /**
+     * 时间窗口内点击同一元素达到该次数视为狂点，默认 3
+     */
+    rageClickCount?: number
+    /**
+     * 狂点的时间窗口（毫秒），从第一次点击开始计算，默认 1000
+     */
+    rageClickWindow?: number
+    /**
+     * 点击后超过该时间（毫秒）页面仍没有任何反应视为无效点击，默认 2000
+     */
+    deadClickTimeout?: number
+}
+
+const DEFAULT_OPTIONS: Required<FrustrationOptions> = {
+    rageClickCount: 3,
+    rageClickWindow: 1000,
+    deadClickTimeout: 2000,
+}
+
+// 看起来可以点击的元素；复选框、输入框、新窗口打开与下载链接点击后页面本身不会变化，不参与无效点击检测
+const INTERACTIVE_SELECTOR = 'a[href], button, [role="button"], [role="link"], input[type="button"], input[type="submit"], [onclick]'
+
+const IGNORED_SELECTOR = 'a[target="_blank"], a[download], [disabled]'
+
+interface ClickBurst {
+    element: Element
+    count: number
+}
+
+const getInteractiveElement = (target: EventTarget | null) => {
+    const element = target instanceof Element ? target.closest(INTERACTIVE_SELECTOR) : null
+
+    return element && !element.matches(IGNORED_SELECTOR) ? element : null
+}
+
+/**
+ * 用户受挫信号：短时间内反复点击同一元素（狂点），以及点击可交互元素后页面没有任何反应（无效点击）
+ * “没有反应”指点击后既没有 DOM 变化，也没有路由切换，也没有发出网络请求
+ */
+export class Frustration implements IIntegration {
+    name = 'Frustration'
+
+    private options: Required<FrustrationOptions>
+
+    private transport: Transport | null = null
+
+    private burst: ClickBurst | null = null
+
+    // 最近一次页面有反应的时间
+    private lastActivity = 0
+
+    // 正在等待反应的元素，同一元素的多次点击只检测一次
+    private pending = new WeakSet<Element>()
+
+    private cleanups: Array<() => void> = []
+
+    constructor(options: FrustrationOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+    }
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+
+        const markActivity = () => {
+            this.lastActivity = Date.now()
+        }
+
+        const mutationObserver = new MutationObserver(markActivity)
+        mutationObserver.observe(document, { childList: true, subtree: true, attributes: true, characterData: true })
+
+        document.addEventListener('click', this.handleClick, true)
+
+        this.cleanups = [
+            () => mutationObserver.disconnect(),
+            addHistoryHandler(markActivity),
+            // 请求发出即视为有反应，慢请求完成前页面没有变化也不算无效点击
+            addHttpStartHandler(({ url }) => !isMonitorRequest(url) && markActivity()),
+            () => document.removeEventListener('click', this.handleClick, true),
+        ]
+    }
+
+    teardown() {
+        this.cleanups.forEach(cleanup => cleanup())
+        this.cleanups = []
+        this.transport = null
+    }
+
+    private handleClick = (event: MouseEvent) => {
+        if (!(event.target instanceof Element)) {
+            return
+        }
+
+        this.trackRageClick(event.target)
+
+        const element = getInteractiveElement(event.target)
+
+        if (element) {
+            this.trackDeadClick(element)
+        }
+    }
+
+    private trackRageClick(element: Element) {
+        if (this.burst?.element === element) {
+            this.burst.count++
+            return
+        }
+
+        const burst = { element, count: 1 }
+
+        this.burst = burst
+
+        // 窗口结束时再判断，上报的是窗口内的总点击次数
+        setTimeout(() => {
+            if (this.burst === burst) {
+                this.burst = null
+            }
+
+            if (burst.count >= this.options.rageClickCount) {
+                this.report('rage_click', element, burst.count)
+            }
+        }, this.options.rageClickWindow)
+    }
+
+    private trackDeadClick(element: Element) {
+        if (this.pending.has(element)) {
+            return
+        }
+
+        const clickTime = Date.now()
+
+        this.pending.add(element)
+
+        setTimeout(() => {
+            this.pending.delete(element)
+
+            if (this.lastActivity < clickTime) {
+                this.report('dead_click', element, 1)
+            }
+        }, this.options.deadClickTimeout)
+    }
+
+    private report(type: 'rage_click' | 'dead_click', element: Element, clickCount: number) {
+        const selector = getSelector(element)
+
+        addBreadcrumb({
+            category: `ui.${type}`,
+            level: 'warn',
+            message: selector,
+            data: { clickCount },
+        })
+
+        this.transport?.send({
+            event_type: 'behavior',
+            type,
+            selector,
+            clickCount,
+            path: window.location.pathname,
+        })
+    }
+}
@@ -0,0 +1,111 @@
+import { isMonitorRequest } from '@sharing/monitor-sdk-browser-utils'
+import { getFingerprint, IIntegration, Monitoring } from '@sharing/monitor-sdk-core'
+
+import { addHttpHandler, HttpRequestData } from '../instrument/http'
+
+type UrlPattern = string | RegExp
+
+export interface HttpOptions {
+    /**
+     * 只采集匹配的请求，字符串按包含匹配，默认采集全部
+     */
+    allowUrls?: UrlPattern[]
+    /**
+     * 不采集匹配的请求，优先级高于 allowUrls
+     */
+    denyUrls?: UrlPattern[]
+    /**
+     * 是否同时上报成功的请求，默认只上报失败的请求
+     */
+    captureSuccess?: boolean
+}
+
+const matches = (url: string, patterns: UrlPattern[]) => {
+    return patterns.some(pattern => (typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)))
+}
+
+/**
+ * 请求失败的原因，未失败时为 null；no-cors 的不透明响应读取不到状态码，按成功处理
+ */
+const getFailureReason = ({ result, status, opaque }: HttpRequestData) => {
+    if (result !== 'complete') {
+        return result
+    }
+
+    return opaque || (status >= 200 && status < 300) ? null : 'status'
+}
+
+export class Http implements IIntegration {
+    name = 'Http'
+
+    private removeHandler: (() => void) | null = null
+
+    constructor(private options: HttpOptions = {}) {}
+
+    setup(client: Monitoring) {
+        const transport = client.getTransport()!
+
+        this.removeHandler = addHttpHandler(data => {
+            if (!this.shouldCapture(data.url)) {
+                return
+            }
+
+            const { type, method, url, status, startTime, endTime, requestSize, responseSize, error } = data
+            const reason = getFailureReason(data)
+            const payload = {
+                requestType: type,
+                method,
+                url,
+                status,
+                duration: endTime - startTime,
+                requestSize,
+                responseSize,
+                path: window.location.pathname,
+            }
+
+            // 请求被取消（如路由切换时取消未完成的请求）不是错误，与成功的请求一样按 captureSuccess 上报
+            if (reason === 'abort') {
+                this.options.captureSuccess && transport.send({ event_type: 'http', type: 'http_abort', ...payload })
+            } else if (reason) {
+                transport.send({
+                    event_type: 'error',
+                    type: 'http_error',
+                    ...payload,
+                    reason,
+                    message: error || `${method} ${url} ${status}`,
+                    // 查询参数通常每次都不同，不参与分组
+                    fingerprint: getFingerprint(
+                        'http_error',
+                        `${method} ${url.replace(/[?#].*$/, '')} ${reason === 'status' ? status : reason}`
+                    ),
+                })
+            } else if (this.options.captureSuccess) {
+                transport.send({
+                    event_type: 'http',
+                    type: 'http_request',
+                    ...payload,
+                })
+            }
+        })
+    }
+
+    teardown() {
+        this.removeHandler?.()
+        this.removeHandler = null
+    }
+
+    private shouldCapture(url: string) {
+        const { allowUrls, denyUrls } = this.options
+
+        // SDK 自身的上报请求必须排除，否则失败的上报会再次触发上报
+        if (isMonitorRequest(url)) {
+            return false
+        }
+
+        if (denyUrls && matches(url, denyUrls)) {
+            return false
+        }
+
+        return !allowUrls || matches(url, allowUrls)
+    }
+}
@@ -0,0 +1,36 @@
+import { IIntegration, Monitoring } from '@sharing/monitor-sdk-core'
+
+import { addHistoryHandler } from '../instrument/history'
+
+/**
+ * 页面访问：首次加载与每次单页应用路由切换各算一次，之后的事件都带上对应的 pageViewId
+ */
+export class PageViews implements IIntegration {
+    name = 'PageViews'
+
+    private removeHandler: (() => void) | null = null
+
+    setup(client: Monitoring) {
+        this.startPageView(client, document.referrer)
+
+        this.removeHandler = addHistoryHandler(({ from }) => this.startPageView(client, from))
+    }
+
+    teardown() {
+        this.removeHandler?.()
+        this.removeHandler = null
+    }
+
+    private startPageView(client: Monitoring, referrer: string) {
+        const pageViewId = client.getSessionManager()?.startPageView()
+
+        client.getTransport()?.send({
+            event_type: 'behavior',
+            type: 'page_view',
+            pageViewId,
+            url: location.href,
+            referrer,
+            path: window.location.pathname,
+        })
+    }
+}
@@ -0,0 +1,121 @@
+import { onHidden } from '@sharing/monitor-sdk-browser-utils'
+import { addEventProcessor, generateId, IIntegration, isErrorEvent, MonitorEvent, Monitoring, Transport } from '@sharing/monitor-sdk-core'
+
+import { Recorder, ReplayEvent } from '../replay/record'
+import { SnapshotOptions } from '../replay/snapshot'
+
+export interface ReplayOptions extends SnapshotOptions {
+    /**
+     * buffer：只在内存中保留最近的录制，发生错误时随错误一起上报；session：持续上报。默认 buffer
+     */
+    mode?: 'buffer' | 'session'
+    /**
+     * buffer 模式下至少保留的录制时长（毫秒），默认 60000
+     */
+    bufferDuration?: number
+    /**
+     * session 模式下的上报间隔（毫秒），默认 10000
+     */
+    flushInterval?: number
+}
+
+const DEFAULT_OPTIONS: Required<Pick<ReplayOptions, 'mode' | 'bufferDuration' | 'flushInterval'>> = {
+    mode: 'buffer',
+    bufferDuration: 60 * 1000,
+    flushInterval: 10 * 1000,
+}
+
+// 去重产生的 error_repeat 只是计数，不关联录制
+const isReplayTrigger = (event: MonitorEvent) => isErrorEvent(event) && event.type !== 'error_repeat'
+
+export class Replay implements IIntegration {
+    name = 'Replay'
+
+    private options: ReplayOptions & typeof DEFAULT_OPTIONS
+
+    private replayId = generateId()
+
+    private segmentId = 0
+
+    private events: ReplayEvent[] = []
+
+    // 最近一次全量快照在 events 中的位置
+    private checkoutIndex = 0
+
+    private transport: Transport | null = null
+
+    private recorder: Recorder | null = null
+
+    private cleanups: Array<() => void> = []
+
+    constructor(options: ReplayOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+    }
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+        this.recorder = new Recorder(this.options, event => this.events.push(event))
+        this.recorder.start()
+
+        let timer: ReturnType<typeof setInterval>
+
+        if (this.options.mode === 'session') {
+            timer = setInterval(() => this.flush(), this.options.flushInterval)
+            onHidden(() => this.flush())
+        } else {
+            timer = setInterval(() => this.checkout(), this.options.bufferDuration)
+        }
+
+        // 错误事件带上 replayId
+        const removeProcessor = addEventProcessor(event => (isReplayTrigger(event) ? { ...event, replayId: this.replayId } : event))
+
+        this.cleanups = [() => clearInterval(timer), removeProcessor]
+    }
+
+    /**
+     * buffer 模式下错误实际上报后才上传缓冲区中的录制，被 beforeSend 丢弃或超出会话上限的错误不触发
+     */
+    afterSend(event: MonitorEvent) {
+        if (this.options.mode === 'buffer' && isReplayTrigger(event)) {
+            this.flush()
+        }
+    }
+
+    teardown() {
+        this.cleanups.forEach(cleanup => cleanup())
+        this.cleanups = []
+        this.recorder?.stop()
+        this.recorder = null
+        this.transport = null
+        this.events = []
+    }
+
+    /**
+     * 重新做一次全量快照，并丢弃上一次快照之前的录制，使缓冲区保留 bufferDuration ~ 2 * bufferDuration 的内容
+     */
+    private checkout() {
+        this.events = this.events.slice(this.checkoutIndex)
+        this.checkoutIndex = this.events.length
+        this.recorder?.takeFullSnapshot()
+    }
+
+    private flush() {
+        if (!this.transport || !this.events.length) {
+            return
+        }
+
+        const events = this.events
+
+        this.events = []
+        this.checkoutIndex = 0
+
+        this.transport.send({
+            event_type: 'replay',
+            type: 'replay_segment',
+            replayId: this.replayId,
+            segmentId: this.segmentId++,
+            events,
+            path: window.location.pathname,
+        })
+    }
+}
@@ -0,0 +1,62 @@
+import { generateUniqueID, triggerSoftNavigation } from '@sharing/monitor-sdk-browser-utils'
+import { addEventProcessor, IIntegration, Monitoring } from '@sharing/monitor-sdk-core'
+
+import { addHistoryHandler } from '../instrument/history'
+
+export interface RouteOptions {
+    /**
+     * 路由切换时是否结算并重新开始计算 INP、CLS 等指标（与 bfcache 恢复的处理方式相同），默认 false
+     */
+    restartMetrics?: boolean
+}
+
+export class Route implements IIntegration {
+    name = 'Route'
+
+    private cleanups: Array<() => void> = []
+
+    private routeId = generateUniqueID()
+
+    private routeStart = Date.now()
+
+    constructor(private options: RouteOptions = {}) {}
+
+    setup(client: Monitoring) {
+        const transport = client.getTransport()!
+
+        // 所有事件都带上所在路由的 id，用于把指标、错误与具体的路由关联起来
+        const removeProcessor = addEventProcessor(event => ({ routeId: this.routeId, ...event }))
+
+        const removeHandler = addHistoryHandler(({ from, to }) => {
+            // 先结算上一个路由的指标，此时上报的事件仍属于上一个路由
+            if (this.options.restartMetrics) {
+                triggerSoftNavigation(from)
+            }
+
+            const now = Date.now()
+            const previousRouteId = this.routeId
+
+            this.routeId = generateUniqueID()
+
+            transport.send({
+                event_type: 'behavior',
+                type: 'route_change',
+                from,
+                to,
+                // 在上一个路由停留的时间
+                duration: now - this.routeStart,
+                previousRouteId,
+                path: window.location.pathname,
+            })
+
+            this.routeStart = now
+        })
+
+        this.cleanups = [removeProcessor, removeHandler]
+    }
+
+    teardown() {
+        this.cleanups.forEach(cleanup => cleanup())
+        this.cleanups = []
+    }
+}
@@ -0,0 +1,177 @@
+import { getSelector } from '@sharing/monitor-sdk-browser-utils'
+import { IIntegration, Monitoring, Transport } from '@sharing/monitor-sdk-core'
+
+import { addHistoryHandler } from '../instrument/history'
+
+export interface TrackOptions {
+    /**
+     * 元素可见面积达到该比例才算曝光，默认 0.5
+     */
+    threshold?: number
+    /**
+     * 元素持续可见超过该时间（毫秒）才算曝光，默认 1000
+     */
+    minDwellTime?: number
+}
+
+const CLICK_ATTRIBUTE = 'data-track'
+
+const EXPOSURE_ATTRIBUTE = 'data-track-exposure'
+
+const DEFAULT_OPTIONS: Required<TrackOptions> = {
+    threshold: 0.5,
+    minDwellTime: 1000,
+}
+
+/**
+ * 埋点属性的值可以是 JSON，解析失败时按字符串上报
+ */
+const parsePayload = (value: string | null): unknown => {
+    if (!value) {
+        return value
+    }
+
+    try {
+        return JSON.parse(value)
+    } catch {
+        return value
+    }
+}
+
+/**
+ * 声明式埋点：点击带 data-track 的元素、带 data-track-exposure 的元素进入视口时自动上报，
+ * 同一页面访问内每个曝光只上报一次
+ */
+export class Track implements IIntegration {
+    name = 'Track'
+
+    private options: Required<TrackOptions>
+
+    private transport: Transport | null = null
+
+    private observer: IntersectionObserver | null = null
+
+    // 正在计时的曝光，元素离开视口时取消
+    private timers = new Map<Element, ReturnType<typeof setTimeout>>()
+
+    private exposed = new Set<string>()
+
+    private cleanups: Array<() => void> = []
+
+    constructor(options: TrackOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+    }
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+
+        document.addEventListener('click', this.handleClick, true)
+        this.cleanups.push(() => document.removeEventListener('click', this.handleClick, true))
+
+        if (typeof IntersectionObserver === 'undefined') {
+            return
+        }
+
+        this.observer = new IntersectionObserver(this.handleIntersections, { threshold: this.options.threshold })
+
+        if (document.readyState === 'loading') {
+            document.addEventListener('DOMContentLoaded', this.observeDocument)
+            this.cleanups.push(() => document.removeEventListener('DOMContentLoaded', this.observeDocument))
+        } else {
+            this.observeDocument()
+        }
+
+        const mutationObserver = new MutationObserver(records => {
+            records.forEach(record => record.addedNodes.forEach(node => node instanceof Element && this.observeExposures(node)))
+        })
+        mutationObserver.observe(document, { childList: true, subtree: true })
+        this.cleanups.push(() => mutationObserver.disconnect())
+
+        // 新的页面访问重新计算曝光
+        const removeHandler = addHistoryHandler(() => {
+            this.reset()
+            this.observeDocument()
+        })
+        this.cleanups.push(removeHandler)
+    }
+
+    teardown() {
+        this.cleanups.forEach(cleanup => cleanup())
+        this.cleanups = []
+        this.reset()
+        this.observer = null
+        this.transport = null
+    }
+
+    private observeDocument = () => this.observeExposures(document.documentElement)
+
+    private reset() {
+        this.exposed.clear()
+        this.timers.forEach(timer => clearTimeout(timer))
+        this.timers.clear()
+        this.observer?.disconnect()
+    }
+
+    private handleClick = (event: MouseEvent) => {
+        const element = event.target instanceof Element ? event.target.closest(`[${CLICK_ATTRIBUTE}]`) : null
+
+        if (!element) {
+            return
+        }
+
+        this.transport?.send({
+            event_type: 'behavior',
+            type: 'track_click',
+            data: parsePayload(element.getAttribute(CLICK_ATTRIBUTE)),
+            selector: getSelector(element),
+            path: window.location.pathname,
+        })
+    }
+
+    private observeExposures(root: Element) {
+        if (root.hasAttribute(EXPOSURE_ATTRIBUTE)) {
+            this.observer?.observe(root)
+        }
+
+        root.querySelectorAll(`[${EXPOSURE_ATTRIBUTE}]`).forEach(element => this.observer?.observe(element))
+    }
+
+    private handleIntersections = (entries: IntersectionObserverEntry[]) => {
+        entries.forEach(({ target, isIntersecting, intersectionRatio }) => {
+            if (isIntersecting && intersectionRatio >= this.options.threshold) {
+                if (!this.timers.has(target)) {
+                    this.timers.set(
+                        target,
+                        setTimeout(() => this.reportExposure(target), this.options.minDwellTime)
+                    )
+                }
+            } else {
+                clearTimeout(this.timers.get(target))
+                this.timers.delete(target)
+            }
+        })
+    }
+
+    private reportExposure(element: Element) {
+        const value = element.getAttribute(EXPOSURE_ATTRIBUTE)
+        const selector = getSelector(element)
+        const key = `${selector}|${value}`
+
+        this.timers.delete(element)
+        this.observer?.unobserve(element)
+
+        if (this.exposed.has(key) || !element.isConnected) {
+            return
+        }
+
+        this.exposed.add(key)
+
+        this.transport?.send({
+            event_type: 'behavior',
+            type: 'track_exposure',
+            data: parsePayload(value),
+            selector,
+            path: window.location.pathname,
+        })
+    }
+}
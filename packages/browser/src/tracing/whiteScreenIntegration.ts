@@ -0,0 +1,141 @@
+import { getSelector } from '@sharing/monitor-sdk-browser-utils'
+import { IIntegration, Monitoring, Transport } from '@sharing/monitor-sdk-core'
+
+import { addHistoryHandler } from '../instrument/history'
+
+export interface WhiteScreenOptions {
+    /**
+     * 页面骨架容器的选择器，采样点最上层的元素是这些容器时视为空白点，默认 ['html', 'body', '#app', '#root']
+     */
+    containerSelectors?: string[]
+    /**
+     * 水平与垂直中线上各取的采样点数，默认 9
+     */
+    samplePoints?: number
+    /**
+     * 检测到空白后的重试次数，页面可能仍在渲染，默认 3
+     */
+    retries?: number
+    /**
+     * 每次检测的间隔（毫秒），默认 1000
+     */
+    interval?: number
+}
+
+const DEFAULT_OPTIONS: Required<WhiteScreenOptions> = {
+    containerSelectors: ['html', 'body', '#app', '#root'],
+    samplePoints: 9,
+    retries: 3,
+    interval: 1000,
+}
+
+// 用户配置的选择器可能不合法，matches 会抛错
+const matches = (element: Element, selector: string) => {
+    try {
+        return element.matches(selector)
+    } catch {
+        return false
+    }
+}
+
+export class WhiteScreen implements IIntegration {
+    name = 'WhiteScreen'
+
+    private options: Required<WhiteScreenOptions>
+
+    private transport: Transport | null = null
+
+    private timer: ReturnType<typeof setTimeout> | null = null
+
+    private removeHandler: (() => void) | null = null
+
+    constructor(options: WhiteScreenOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+    }
+
+    setup(client: Monitoring) {
+        this.transport = client.getTransport()
+
+        if (document.readyState === 'complete') {
+            this.schedule()
+        } else {
+            window.addEventListener('load', this.handleLoad, { once: true })
+        }
+
+        // 路由切换后重新检测，上一个路由未完成的检测作废
+        this.removeHandler = addHistoryHandler(() => this.schedule())
+    }
+
+    teardown() {
+        window.removeEventListener('load', this.handleLoad)
+        this.removeHandler?.()
+        this.removeHandler = null
+        this.cancel()
+        this.transport = null
+    }
+
+    private handleLoad = () => this.schedule()
+
+    private cancel() {
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+    }
+
+    private schedule(attempt = 0) {
+        this.cancel()
+
+        this.timer = setTimeout(() => {
+            this.timer = null
+
+            const { empty, total, selectors } = this.sample()
+
+            if (empty < total) {
+                return
+            }
+
+            if (attempt < this.options.retries) {
+                this.schedule(attempt + 1)
+                return
+            }
+
+            this.transport?.send({
+                event_type: 'error',
+                type: 'white_screen',
+                selectors,
+                emptyPoints: empty,
+                samplePoints: total,
+                path: window.location.pathname,
+            })
+        }, this.options.interval)
+    }
+
+    /**
+     * 在视口的水平中线与垂直中线上取点，统计最上层元素为骨架容器的点数
+     */
+    private sample() {
+        const { samplePoints, containerSelectors } = this.options
+        const points: Array<[number, number]> = []
+
+        for (let i = 1; i <= samplePoints; i++) {
+            const ratio = i / (samplePoints + 1)
+
+            points.push([window.innerWidth * ratio, window.innerHeight / 2])
+            points.push([window.innerWidth / 2, window.innerHeight * ratio])
+        }
+
+        let empty = 0
+        const selectors = points.map(([x, y]) => {
+            const element = document.elementsFromPoint(x, y)[0]
+
+            if (!element || containerSelectors.some(selector => matches(element, selector))) {
+                empty++
+            }
+
+            return element ? getSelector(element) : ''
+        })
+
+        return { empty, total: points.length, selectors }
+    }
+}
@@ -1,21 +1,290 @@
-import { getBrowserInfo } from '@sharing/monitor-sdk-browser-utils'
+import { onHidden } from '@sharing/monitor-sdk-browser-utils'
 import { Transport } from '@sharing/monitor-sdk-core'
 
+import { Outbox, OutboxOptions } from './outbox'
+
+export interface BrowserTransportOptions {
+    /**
+     * 单次请求最多携带的事件数，队列达到该数量时立即发送，默认 10
+     */
+    maxBatchSize?: number
+    /**
+     * 队列最多缓存的事件数，超出时丢弃最早的事件，默认 100
+     */
+    maxQueueSize?: number
+    /**
+     * 队列未满时的最长等待时间（毫秒），默认 5000
+     */
+    flushInterval?: number
+    /**
+     * 发送失败后的最大重试次数，默认 3
+     */
+    maxRetries?: number
+    /**
+     * 首次重试前的等待时间（毫秒），之后每次翻倍，默认 1000
+     */
+    retryDelay?: number
+    /**
+     * 离线或重试失败的事件持久化配置，传 false 关闭，默认开启
+     */
+    outbox?: OutboxOptions | false
+}
+
+type Payload = Record<string, unknown>
+
+const DEFAULT_OPTIONS: Required<BrowserTransportOptions> = {
+    maxBatchSize: 10,
+    maxQueueSize: 100,
+    flushInterval: 5000,
+    maxRetries: 3,
+    retryDelay: 1000,
+    outbox: {},
+}
+
+const DEFAULT_RETRY_AFTER = 60 * 1000
+
+/**
+ * 解析 Retry-After 响应头，支持秒数与 HTTP 日期两种格式
+ * 跨域时需服务端通过 Access-Control-Expose-Headers 暴露该头，否则使用默认值
+ */
+const parseRetryAfter = (header: string | null) => {
+    if (!header) {
+        return DEFAULT_RETRY_AFTER
+    }
+
+    const seconds = Number(header)
+
+    if (!isNaN(seconds)) {
+        return seconds * 1000
+    }
+
+    const date = Date.parse(header)
+
+    return isNaN(date) ? DEFAULT_RETRY_AFTER : Math.max(0, date - Date.now())
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * 仅网络错误与服务端错误值得重试，其余 4xx 重试也不会成功
+ */
+const isRetryable = (status: number) => status >= 500 || status === 408
+
 export class BrowserTransport implements Transport {
-    constructor(private dsn: string) {}
+    private options: Required<BrowserTransportOptions>
+
+    private queue: Payload[] = []
+
+    private timer: ReturnType<typeof setTimeout> | null = null
+
+    private sending = false
+
+    // 页面隐藏后的上报在当前任务结束时通过 sendBeacon 一并发出
+    private hiddenFlushScheduled = false
 
-    send(data: Record<string, unknown>) {
-        const browserInfo = getBrowserInfo()
+    // pagehide 之后页面可能仍是 visible（部分浏览器先触发 pagehide），从 bfcache 恢复时重置
+    private pageHidden = false
 
-        const payload = {
-            ...data,
-            ...browserInfo,
+    // 已从队列取出、尚未送达的批次（发送中或等待重试），页面隐藏时由 flushOnHidden 接手
+    private inFlight = new Set<Payload[]>()
+
+    private outbox: Outbox | null
+
+    // 被服务端限流（429）时，在此时间之前不再发送
+    private rateLimitedUntil = 0
+
+    constructor(
+        private dsn: string,
+        options: BrowserTransportOptions = {}
+    ) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+        this.outbox = this.options.outbox ? new Outbox(this.options.outbox) : null
+
+        // 上次未送达的事件在本次加载和网络恢复时重发
+        this.replay()
+        addEventListener('online', () => this.replay())
+
+        // 页面隐藏或卸载后普通请求可能被取消，改用 sendBeacon 把剩余事件发出去
+        onHidden(() => this.flushOnHidden())
+        addEventListener('pagehide', () => {
+            this.pageHidden = true
+            this.flushOnHidden()
+        })
+        addEventListener('pageshow', () => {
+            this.pageHidden = false
+        })
+    }
+
+    send(data: Payload) {
+        this.queue.push(data)
+
+        if (this.queue.length > this.options.maxQueueSize) {
+            this.queue.shift()
         }
 
-        fetch(this.dsn, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
+        // 页面隐藏后定时器可能不再执行，其他 onHidden 回调中的上报（如最终的 CLS/INP）在隐藏时的刷新之后才进入队列，
+        // 同一任务中的上报合并后直接走 sendBeacon
+        if (this.pageHidden || document.visibilityState === 'hidden') {
+            this.scheduleHiddenFlush()
+        } else if (this.queue.length >= this.options.maxBatchSize) {
+            this.flush()
+        } else {
+            this.scheduleFlush()
+        }
+    }
+
+    /**
+     * 按批发送队列中的全部事件，同一时间只有一个发送流程
+     */
+    async flush() {
+        this.clearTimer()
+
+        if (this.sending) {
+            return
+        }
+
+        this.sending = true
+
+        try {
+            while (this.queue.length) {
+                if (this.isRateLimited()) {
+                    this.scheduleFlush(this.rateLimitedUntil - Date.now())
+                    break
+                }
+
+                const batch = this.queue.splice(0, this.options.maxBatchSize)
+
+                this.inFlight.add(batch)
+
+                const handled = await this.sendBatch(batch)
+
+                // 已被 flushOnHidden 接手的批次不再处理
+                if (this.inFlight.delete(batch) && !handled) {
+                    this.outbox?.push(batch)
+                }
+            }
+        } finally {
+            this.sending = false
+        }
+    }
+
+    /**
+     * 把持久化的事件重新放回队列发送
+     */
+    async replay() {
+        if (!this.outbox || !navigator.onLine) {
+            return
+        }
+
+        const payloads = await this.outbox.drain()
+
+        if (payloads.length) {
+            this.queue.push(...payloads)
+            this.flush()
+        }
+    }
+
+    private isRateLimited() {
+        return Date.now() < this.rateLimitedUntil
+    }
+
+    private scheduleFlush(delay = this.options.flushInterval) {
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), delay)
+        }
+    }
+
+    private scheduleHiddenFlush() {
+        if (!this.hiddenFlushScheduled) {
+            this.hiddenFlushScheduled = true
+            queueMicrotask(() => {
+                this.hiddenFlushScheduled = false
+                this.flushOnHidden()
+            })
+        }
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * 发送一批事件，失败时按指数退避重试
+     * @returns 是否已处理完毕（被服务端拒绝的事件重发也不会成功，同样视为已处理）
+     */
+    private async sendBatch(batch: Payload[]) {
+        // 离线时请求必然失败，不必重试
+        if (!navigator.onLine) {
+            return false
+        }
+
+        for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+            if (attempt > 0) {
+                await sleep(this.options.retryDelay * 2 ** (attempt - 1))
+
+                if (!this.inFlight.has(batch)) {
+                    return true
+                }
+            }
+
+            try {
+                const response = await fetch(this.dsn, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(batch),
+                })
+
+                // 限流：放回队列等待 Retry-After 之后再发
+                if (response.status === 429) {
+                    this.rateLimitedUntil = Date.now() + parseRetryAfter(response.headers.get('Retry-After'))
+                    this.inFlight.has(batch) && this.queue.unshift(...batch)
+                    return true
+                }
+
+                if (response.ok || !isRetryable(response.status)) {
+                    return true
+                }
+            } catch {}
+        }
+
+        return false
+    }
+
+    private flushOnHidden() {
+        this.clearTimer()
+
+        // 发送中或等待重试的批次在页面卸载后会丢失，与队列中的事件一起发出
+        const batches = Array.from(this.inFlight)
+
+        this.inFlight.clear()
+
+        while (this.queue.length) {
+            batches.push(this.queue.splice(0, this.options.maxBatchSize))
+        }
+
+        // 离线或限流期间无法发送，同步保存下来
+        if (!navigator.onLine || this.isRateLimited()) {
+            batches.length && this.outbox?.pushSync(batches.flat())
+            return
+        }
+
+        batches.forEach(batch => {
+            const body = JSON.stringify(batch)
+
+            // sendBeacon 以 text/plain 发送字符串，避免跨域预检；不可用或超出浏览器限制时退回 keepalive 请求
+            const queued = typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(this.dsn, body)
+
+            if (!queued) {
+                fetch(this.dsn, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body,
+                    keepalive: true,
+                }).catch(() => {})
+            }
         })
     }
 }
@@ -0,0 +1,189 @@
+type Payload = Record<string, unknown>
+
+export interface OutboxOptions {
+    /**
+     * 最多保存的事件数，超出时丢弃最早的事件，默认 100
+     */
+    maxSize?: number
+    /**
+     * 事件最长保存时间（毫秒），过期事件不再重发，默认 24 小时
+     */
+    maxAge?: number
+}
+
+interface OutboxEntry {
+    timestamp: number
+    payload: Payload
+}
+
+interface OutboxStore {
+    read(): Promise<OutboxEntry[]>
+    write(entries: OutboxEntry[]): Promise<void>
+}
+
+const STORAGE_KEY = 'sharing-monitor-outbox'
+
+const DEFAULT_OPTIONS: Required<OutboxOptions> = {
+    maxSize: 100,
+    maxAge: 24 * 60 * 60 * 1000,
+}
+
+class LocalStorageStore implements OutboxStore {
+    async read() {
+        return this.readSync()
+    }
+
+    async write(entries: OutboxEntry[]) {
+        this.writeSync(entries)
+    }
+
+    readSync() {
+        try {
+            return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as OutboxEntry[]
+        } catch {
+            return []
+        }
+    }
+
+    writeSync(entries: OutboxEntry[]) {
+        try {
+            if (entries.length) {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+            } else {
+                localStorage.removeItem(STORAGE_KEY)
+            }
+        } catch {}
+    }
+}
+
+/**
+ * 所有事件作为一条记录保存在 object store 中，读写方式与 localStorage 保持一致
+ */
+class IndexedDBStore implements OutboxStore {
+    private db: Promise<IDBDatabase>
+
+    constructor() {
+        this.db = new Promise((resolve, reject) => {
+            const request = indexedDB.open(STORAGE_KEY, 1)
+            request.onupgradeneeded = () => request.result.createObjectStore(STORAGE_KEY)
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+    }
+
+    async read() {
+        const db = await this.db
+
+        return new Promise<OutboxEntry[]>((resolve, reject) => {
+            const request = db.transaction(STORAGE_KEY, 'readonly').objectStore(STORAGE_KEY).get(STORAGE_KEY)
+            request.onsuccess = () => resolve((request.result as OutboxEntry[] | undefined) || [])
+            request.onerror = () => reject(request.error)
+        })
+    }
+
+    async write(entries: OutboxEntry[]) {
+        const db = await this.db
+
+        return new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(STORAGE_KEY, 'readwrite')
+            transaction.objectStore(STORAGE_KEY).put(entries, STORAGE_KEY)
+            transaction.oncomplete = () => resolve()
+            transaction.onerror = () => reject(transaction.error)
+        })
+    }
+}
+
+/**
+ * 持久化保存发送失败的事件，供下次页面加载或网络恢复时重发
+ * 优先使用 IndexedDB，不可用（如隐私模式）时退回 localStorage
+ */
+export class Outbox {
+    private options: Required<OutboxOptions>
+
+    private store: OutboxStore
+
+    private fallbackStore = new LocalStorageStore()
+
+    // drain 取出的事件 → 首次保存的时间；再次发送失败时沿用，保证 maxAge 对反复失败的事件同样生效
+    private timestamps = new WeakMap<Payload, number>()
+
+    // 串行执行读写，避免并发的“读-改-写”互相覆盖
+    private pending: Promise<unknown> = Promise.resolve()
+
+    constructor(options: OutboxOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options }
+        this.store = typeof indexedDB !== 'undefined' ? new IndexedDBStore() : this.fallbackStore
+    }
+
+    push(payloads: Payload[]) {
+        return this.enqueue(async () => {
+            await this.write(this.append(await this.read(), payloads))
+        })
+    }
+
+    /**
+     * 同步保存到 localStorage；页面卸载时 IndexedDB 的异步写入可能来不及完成，下次 drain 时一并取出
+     */
+    pushSync(payloads: Payload[]) {
+        this.fallbackStore.writeSync(this.append(this.fallbackStore.readSync(), payloads))
+    }
+
+    /**
+     * 取出全部未过期的事件并清空
+     */
+    drain() {
+        return this.enqueue(async () => {
+            const entries = this.prune(await this.read())
+
+            await this.write([])
+
+            // 主存储为 IndexedDB 时，pushSync 保存的事件在 localStorage 中
+            if (this.store !== this.fallbackStore) {
+                entries.push(...this.prune(this.fallbackStore.readSync()))
+                this.fallbackStore.writeSync([])
+            }
+
+            return entries.map(({ timestamp, payload }) => {
+                this.timestamps.set(payload, timestamp)
+                return payload
+            })
+        })
+    }
+
+    private append(entries: OutboxEntry[], payloads: Payload[]) {
+        const now = Date.now()
+
+        const added = payloads.map(payload => ({ timestamp: this.timestamps.get(payload) ?? now, payload }))
+
+        return this.prune(entries.concat(added)).slice(-this.options.maxSize)
+    }
+
+    private enqueue<T>(operation: () => Promise<T>) {
+        const result = this.pending.then(operation)
+        this.pending = result.catch(() => {})
+        return result
+    }
+
+    private prune(entries: OutboxEntry[]) {
+        const now = Date.now()
+        return entries.filter(entry => now - entry.timestamp <= this.options.maxAge)
+    }
+
+    private async read() {
+        try {
+            return await this.store.read()
+        } catch {
+            this.store = this.fallbackStore
+            return this.store.read()
+        }
+    }
+
+    private async write(entries: OutboxEntry[]) {
+        try {
+            await this.store.write(entries)
+        } catch {
+            this.store = this.fallbackStore
+            await this.store.write(entries)
+        }
+    }
+}
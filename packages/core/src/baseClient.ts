@@ -1,18 +1,294 @@
-import { MonitorOptions, Transport } from './types'
+import { setMaxBreadcrumbs } from './breadcrumbs'
+import { Deduplicator } from './dedupe'
+import { getEventProcessors } from './eventProcessors'
+import { getCurrentScope } from './scope'
+import { Session, SessionManager } from './session'
+import { IIntegration, MonitorEvent, MonitorOptions, Transport } from './types'
 
 export let getTransport: () => Transport | null = () => null
 
+export let getClient: () => Monitoring | null = () => null
+
+const DEFAULT_DEDUPE_INTERVAL = 60 * 1000
+
+// 已执行过 setupOnce 的集成名称，多个客户端之间共享
+const installedIntegrations = new Set<string>()
+
+// 自动捕获的错误与 captureException 上报的错误
+export const isErrorEvent = (event: MonitorEvent) => event.event_type === 'error' || event.type === 'customError'
+
+// session_start / session_end 是会话的记录，不计入事件数上限
+const isSessionEvent = (event: MonitorEvent) => event.event_type === 'session'
+
+// 与 Metrics 集成上报的 event_type 保持一致
+const isPerformanceEvent = (event: MonitorEvent) => event.event_type === 'perforance'
+
+const createSessionEndEvent = (session: Session): MonitorEvent => ({
+    event_type: 'session',
+    type: 'session_end',
+    sessionId: session.id,
+    startedAt: session.startedAt,
+    duration: session.lastActivity - session.startedAt,
+    eventCount: session.sequence,
+})
+
 export class Monitoring {
     private transport: Transport | null = null
 
-    constructor(private options: MonitorOptions) {}
+    private performanceSampled: boolean
+
+    // 关闭会话时事件数上限只在当前页面内计算
+    private sentEvents = 0
+
+    private deduplicator: Deduplicator | null = null
+
+    private sessionManager: SessionManager | null = null
+
+    private integrations = new Map<string, IIntegration>()
+
+    private deliver: ((data: MonitorEvent) => void) | null = null
+
+    constructor(private options: MonitorOptions) {
+        this.performanceSampled = Math.random() < (options.performanceSampleRate ?? 1)
+    }
 
     init(transport: Transport) {
-        this.transport = transport
-        getTransport = () => transport
-        this.options.integrations?.forEach(integration => {
-            integration.init(transport)
+        const deliver = (data: MonitorEvent) => {
+            // 会话信息放在最前面，事件自身（如 session_end）携带的 sessionId 优先
+            const event = this.processEvent({ ...this.getSessionTags(), ...data })
+
+            if (!event) {
+                return
+            }
+
+            if (!isSessionEvent(event)) {
+                if (this.isSessionLimitReached()) {
+                    return
+                }
+
+                this.recordSentEvent()
+            }
+
+            transport.send(event)
+            this.integrations.forEach(integration => {
+                try {
+                    integration.afterSend?.(event)
+                } catch {}
+            })
+        }
+
+        const dedupeInterval = this.options.dedupeInterval ?? DEFAULT_DEDUPE_INTERVAL
+
+        if (dedupeInterval > 0) {
+            this.deduplicator = new Deduplicator(dedupeInterval, (fingerprint, count) => {
+                deliver({ event_type: 'error', type: 'error_repeat', fingerprint, count })
+            })
+        }
+
+        if (this.options.session !== false) {
+            this.sessionManager = new SessionManager(this.options.session || {}, (session, previous) => {
+                if (previous) {
+                    deliver(createSessionEndEvent(previous))
+                }
+
+                deliver({ event_type: 'session', type: 'session_start', sessionId: session.id, startedAt: session.startedAt })
+            })
+        }
+
+        this.deliver = deliver
+
+        // 所有上报都经过 shouldCapture 与 processEvent，集成拿到的是包装后的 transport
+        const preparedTransport: Transport = {
+            send: data => {
+                if (this.shouldCapture(data)) {
+                    deliver(data)
+                }
+            },
+        }
+
+        this.transport = preparedTransport
+        getTransport = () => preparedTransport
+        getClient = () => this
+        setMaxBreadcrumbs(this.options.maxBreadcrumbs)
+        this.setupIntegrations()
+    }
+
+    /**
+     * 获取已安装的集成
+     */
+    getIntegration<T extends IIntegration = IIntegration>(name: string) {
+        return this.integrations.get(name) as T | undefined
+    }
+
+    /**
+     * 卸载所有集成，之后不再采集新的事件
+     */
+    close() {
+        this.integrations.forEach(integration => {
+            try {
+                integration.teardown?.()
+            } catch {}
         })
+        this.integrations.clear()
+    }
+
+    /**
+     * 立即上报去重窗口内被抑制的次数；页面隐藏或卸载时调用，避免窗口结束前页面关闭导致计数丢失
+     */
+    flushSuppressed() {
+        this.deduplicator?.flush()
+    }
+
+    /**
+     * 上报当前会话截至目前的 session_end；页面卸载时调用，用户不再回来时会话同样有结束记录。
+     * 会话在之后的页面中继续时会再次上报，服务端按 sessionId 以最后一次为准
+     */
+    flushSession() {
+        const session = this.sessionManager?.getActiveSession()
+
+        // 已超时的会话在下一个事件切换会话时上报
+        if (session) {
+            this.deliver?.(createSessionEndEvent(session))
+        }
+    }
+
+    getOptions() {
+        return this.options
+    }
+
+    getTransport() {
+        return this.transport
+    }
+
+    getSessionManager() {
+        return this.sessionManager
+    }
+
+    private getSessionTags() {
+        if (!this.sessionManager) {
+            return {}
+        }
+
+        const session = this.sessionManager.touch()
+        const pageViewId = this.sessionManager.getPageViewId()
+
+        return {
+            sessionId: session.id,
+            seq: session.sequence,
+            ...(pageViewId && { pageViewId }),
+        }
+    }
+
+    /**
+     * 合并默认集成与用户配置的集成，按名称去重后依次安装，单个集成安装失败不影响其他集成
+     */
+    private setupIntegrations() {
+        const { defaultIntegrations, integrations = [] } = this.options
+        const defaults = defaultIntegrations || []
+        const resolved = typeof integrations === 'function' ? integrations(defaults) : [...defaults, ...integrations]
+
+        // 同名时后者覆盖前者，但保留前者的安装顺序
+        resolved.forEach(integration => this.integrations.set(integration.name, integration))
+
+        this.integrations.forEach(integration => {
+            try {
+                if (!installedIntegrations.has(integration.name)) {
+                    installedIntegrations.add(integration.name)
+                    integration.setupOnce?.()
+                }
+
+                integration.setup?.(this)
+            } catch {}
+        })
+    }
+
+    private isSessionLimitReached() {
+        const { maxEventsPerSession } = this.options
+
+        if (maxEventsPerSession === undefined) {
+            return false
+        }
+
+        // 事件数保存在会话中，新会话重新计数
+        const sentEvents = this.sessionManager ? this.sessionManager.getSession()?.sentEvents || 0 : this.sentEvents
+
+        return sentEvents >= maxEventsPerSession
+    }
+
+    private recordSentEvent() {
+        if (this.sessionManager) {
+            this.sessionManager.recordSentEvent()
+        } else {
+            this.sentEvents++
+        }
+    }
+
+    private isSampled(event: MonitorEvent) {
+        if (isErrorEvent(event)) {
+            return Math.random() < (this.options.sampleRate ?? 1)
+        }
+
+        if (isPerformanceEvent(event)) {
+            return this.performanceSampled
+        }
+
+        return true
+    }
+
+    /**
+     * 采样与按指纹去重，带 fingerprint 的事件在去重窗口内只上报一次
+     */
+    private shouldCapture(data: MonitorEvent) {
+        if (!this.isSampled(data)) {
+            return false
+        }
+
+        if (typeof data.fingerprint === 'string' && this.deduplicator) {
+            return this.deduplicator.shouldSend(data.fingerprint)
+        }
+
+        return true
+    }
+
+    /**
+     * 事件处理流程：合并作用域 → 全局事件处理函数 → beforeSend，任一步返回 null 则丢弃
+     */
+    private processEvent(data: MonitorEvent): MonitorEvent | null {
+        const { release, environment, beforeSend } = this.options
+
+        let event = getCurrentScope().applyToEvent({
+            ...(release && { release }),
+            ...(environment && { environment }),
+            ...data,
+        })
+
+        for (const processor of getEventProcessors()) {
+            let processed: MonitorEvent | null
+
+            try {
+                processed = processor(event)
+            } catch {
+                // 单个处理函数出错时跳过，不影响事件上报
+                continue
+            }
+
+            if (!processed) {
+                return null
+            }
+
+            event = processed
+        }
+
+        if (beforeSend) {
+            try {
+                return beforeSend(event)
+            } catch {
+                // beforeSend 常用于脱敏，出错时无法确认事件是否安全，直接丢弃
+                return null
+            }
+        }
+
+        return event
     }
 
     reportMessage(message: string) {
@@ -0,0 +1,35 @@
+export type BreadcrumbLevel = 'log' | 'debug' | 'info' | 'warn' | 'error'
+
+export interface Breadcrumb {
+    category: string
+    message?: string
+    level?: BreadcrumbLevel
+    data?: Record<string, unknown>
+    timestamp: number
+}
+
+const DEFAULT_MAX_BREADCRUMBS = 100
+
+let maxBreadcrumbs = DEFAULT_MAX_BREADCRUMBS
+
+const breadcrumbs: Breadcrumb[] = []
+
+function trimBreadcrumbs() {
+    if (breadcrumbs.length > maxBreadcrumbs) {
+        breadcrumbs.splice(0, breadcrumbs.length - maxBreadcrumbs)
+    }
+}
+
+export function setMaxBreadcrumbs(max = DEFAULT_MAX_BREADCRUMBS) {
+    maxBreadcrumbs = Math.max(0, max)
+    trimBreadcrumbs()
+}
+
+export function addBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'> & { timestamp?: number }) {
+    breadcrumbs.push({ timestamp: Date.now(), ...breadcrumb })
+    trimBreadcrumbs()
+}
+
+export function getBreadcrumbs() {
+    return breadcrumbs.slice()
+}
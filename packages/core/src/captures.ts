@@ -1,10 +1,28 @@
 import { getTransport } from './baseClient'
+import { getBreadcrumbs } from './breadcrumbs'
+import { getFingerprint } from './fingerprint'
+import { parseStackFrames } from './stacktrace'
+
+export interface CaptureExceptionHint {
+    /**
+     * 自定义错误指纹，指纹相同的错误会被归为一组并去重
+     */
+    fingerprint?: string
+}
+
+export function captureException(exception: Error, hint: CaptureExceptionHint = {}) {
+    const frames = parseStackFrames(exception.stack)
 
-export function captureException(exception: Error) {
     getTransport()?.send({
         event_type: 'custom',
         type: 'customError',
-        exception,
+        // Error 经 JSON.stringify 后为 {}，需要单独取出各字段
+        name: exception.name,
+        message: exception.message,
+        stack: exception.stack,
+        frames,
+        fingerprint: hint.fingerprint ?? getFingerprint(exception.name, exception.message, frames),
+        breadcrumbs: getBreadcrumbs(),
     })
 }
 
@@ -13,6 +31,7 @@ export function capureMessage(message: string) {
         event_type: 'custom',
         type: 'customError',
         message,
+        breadcrumbs: getBreadcrumbs(),
     })
 }
 
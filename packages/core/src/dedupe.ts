@@ -0,0 +1,49 @@
+/**
+ * 按指纹对事件去重：同一指纹的事件在时间窗口内只放行第一个，
+ * 其余的只计数，窗口结束时通过 onSuppressed 回调汇报被抑制的次数
+ */
+export class Deduplicator {
+    // 指纹 → 窗口内被抑制的次数
+    private suppressed = new Map<string, number>()
+
+    constructor(
+        private interval: number,
+        private onSuppressed: (fingerprint: string, count: number) => void
+    ) {}
+
+    shouldSend(fingerprint: string) {
+        const count = this.suppressed.get(fingerprint)
+
+        if (count !== undefined) {
+            this.suppressed.set(fingerprint, count + 1)
+            return false
+        }
+
+        this.suppressed.set(fingerprint, 0)
+        setTimeout(() => this.expire(fingerprint), this.interval)
+
+        return true
+    }
+
+    /**
+     * 立即汇报各指纹当前被抑制的次数并清零，窗口本身继续生效
+     */
+    flush() {
+        this.suppressed.forEach((count, fingerprint) => {
+            if (count) {
+                this.suppressed.set(fingerprint, 0)
+                this.onSuppressed(fingerprint, count)
+            }
+        })
+    }
+
+    private expire(fingerprint: string) {
+        const count = this.suppressed.get(fingerprint)
+
+        this.suppressed.delete(fingerprint)
+
+        if (count) {
+            this.onSuppressed(fingerprint, count)
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import { EventProcessor } from './types'
+
+const globalEventProcessors: EventProcessor[] = []
+
+/**
+ * 添加全局事件处理函数，按添加顺序依次执行，所有集成上报的事件都会经过；返回移除该函数的函数
+ */
+export function addEventProcessor(processor: EventProcessor) {
+    globalEventProcessors.push(processor)
+
+    return () => {
+        const index = globalEventProcessors.indexOf(processor)
+        index > -1 && globalEventProcessors.splice(index, 1)
+    }
+}
+
+export function getEventProcessors() {
+    return globalEventProcessors.slice()
+}
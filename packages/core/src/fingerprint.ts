@@ -0,0 +1,39 @@
+import { StackFrame } from './stacktrace'
+
+const FINGERPRINT_FRAMES = 3
+
+/**
+ * 去掉错误信息中每次都不同的部分（id、地址、数字），让同一类错误得到相同的指纹
+ */
+export function normalizeMessage(message: string) {
+    return message
+        .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+        .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+        .replace(/\b[0-9a-f]{16,}\b/gi, '<id>')
+        .replace(/\d+/g, '<num>')
+}
+
+// FNV-1a 32 位哈希，只用于分组，不要求抗碰撞
+function hash(value: string) {
+    let result = 0x811c9dc5
+
+    for (let i = 0; i < value.length; i++) {
+        result ^= value.charCodeAt(i)
+        result = Math.imul(result, 0x01000193)
+    }
+
+    return (result >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * 根据错误类型、归一化后的错误信息和栈顶的几个调用帧计算错误指纹
+ * 调用帧只取业务代码中的帧（没有时退回全部帧），且只取文件（去掉查询参数）与函数名，不含行列号，避免代码小改动导致分组变化
+ */
+export function getFingerprint(type: unknown, message: unknown, frames: StackFrame[] = []) {
+    const inAppFrames = frames.filter(frame => frame.in_app)
+    const topFrames = (inAppFrames.length ? inAppFrames : frames)
+        .slice(0, FINGERPRINT_FRAMES)
+        .map(frame => `${frame.filename.replace(/[?#].*$/, '')}:${frame.function}`)
+
+    return hash([String(type ?? ''), normalizeMessage(String(message ?? '')), ...topFrames].join('\n'))
+}
@@ -1,8 +1,29 @@
-export { Integration, Transport } from './types'
+export { EventProcessor, IIntegration, Integration, MonitorEvent, MonitorOptions, Transport } from './types'
 
 export { captureConsoleIntegration } from './integrations/captureConsoleIntegration'
-export type { ConsoleMethod } from './integrations/captureConsoleIntegration'
+export type { CaptureConsoleIntegration, CaptureConsoleOptions, ConsoleMethod } from './integrations/captureConsoleIntegration'
 
-export { Monitoring, getTransport } from './baseClient'
+export { addBreadcrumb, getBreadcrumbs } from './breadcrumbs'
+export type { Breadcrumb, BreadcrumbLevel } from './breadcrumbs'
+
+export { addConsoleHandler } from './instrument/console'
+
+export { Monitoring, getClient, getTransport, isErrorEvent } from './baseClient'
+
+export { addEventProcessor } from './eventProcessors'
+
+export { getFingerprint, normalizeMessage } from './fingerprint'
+
+export { parseStackFrames } from './stacktrace'
+
+export { SessionManager } from './session'
+export type { Session, SessionOptions, SessionStorage } from './session'
+
+export { generateId, serialize } from './utils'
+export type { StackFrame } from './stacktrace'
+
+export { Scope, getCurrentScope, setContext, setExtra, setTag, setTags, setUser } from './scope'
+export type { Context, User } from './scope'
 
 export { captureEvent, capureMessage, captureException } from './captures'
+export type { CaptureExceptionHint } from './captures'
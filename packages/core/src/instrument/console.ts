@@ -0,0 +1,53 @@
+import type { ConsoleMethod } from '../integrations/captureConsoleIntegration'
+
+type ConsoleHandler = (level: ConsoleMethod, args: unknown[]) => void
+
+export const CONSOLE_METHODS: ConsoleMethod[] = ['log', 'warn', 'error', 'info', 'debug']
+
+const handlers: ConsoleHandler[] = []
+
+let instrumented = false
+
+// 处理过程中再次调用 console（例如处理函数自身打印日志）时不再分发，避免死循环
+let handling = false
+
+function instrumentConsole() {
+    if (instrumented) {
+        return
+    }
+
+    instrumented = true
+
+    CONSOLE_METHODS.forEach(level => {
+        // eslint-disable-next-line no-console
+        const original = console[level]
+
+        // eslint-disable-next-line no-console
+        console[level] = function (...args: unknown[]) {
+            if (!handling) {
+                handling = true
+                handlers.forEach(handler => {
+                    try {
+                        handler(level, args)
+                    } catch {}
+                })
+                handling = false
+            }
+
+            original.apply(console, args)
+        }
+    })
+}
+
+/**
+ * 注册 console 调用的处理函数，首次注册时包装 console 方法，原有输出保持不变；返回取消注册的函数
+ */
+export function addConsoleHandler(handler: ConsoleHandler) {
+    handlers.push(handler)
+    instrumentConsole()
+
+    return () => {
+        const index = handlers.indexOf(handler)
+        index > -1 && handlers.splice(index, 1)
+    }
+}
@@ -1,3 +1,63 @@
+import { addBreadcrumb } from '../breadcrumbs'
+import { addConsoleHandler } from '../instrument/console'
+import { IIntegration } from '../types'
+import { serialize } from '../utils'
+
 export type ConsoleMethod = 'log' | 'warn' | 'error' | 'info' | 'debug'
 
-export const captureConsoleIntegration = () => {}
+export interface CaptureConsoleOptions {
+    /**
+     * 需要采集的 console 方法，默认 ['error', 'warn']
+     */
+    levels?: ConsoleMethod[]
+    /**
+     * 只记录为面包屑，不单独上报事件
+     */
+    breadcrumbsOnly?: boolean
+}
+
+export interface CaptureConsoleIntegration extends IIntegration {
+    /**
+     * 该级别的 console 调用是否已由本集成记录为面包屑，其他记录 console 面包屑的集成据此跳过，避免重复记录
+     */
+    recordsBreadcrumb(level: ConsoleMethod): boolean
+}
+
+export const captureConsoleIntegration = (options: CaptureConsoleOptions = {}): CaptureConsoleIntegration => {
+    const levels = options.levels || ['error', 'warn']
+    let removeHandler: (() => void) | null = null
+
+    return {
+        name: 'CaptureConsole',
+        setup(client) {
+            const transport = client.getTransport()!
+
+            removeHandler = addConsoleHandler((level, args) => {
+                if (!levels.includes(level)) {
+                    return
+                }
+
+                const serializedArgs = args.map(serialize)
+                const message = serializedArgs.join(' ')
+
+                if (options.breadcrumbsOnly) {
+                    addBreadcrumb({ category: 'console', level, message })
+                    return
+                }
+
+                transport.send({
+                    event_type: 'console',
+                    type: level,
+                    message,
+                    args: serializedArgs,
+                })
+            })
+        },
+        teardown() {
+            removeHandler?.()
+        },
+        recordsBreadcrumb(level) {
+            return !!options.breadcrumbsOnly && levels.includes(level)
+        },
+    }
+}
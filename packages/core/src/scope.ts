@@ -0,0 +1,91 @@
+export interface User {
+    id?: string
+    username?: string
+    email?: string
+    [key: string]: unknown
+}
+
+export type Context = Record<string, unknown>
+
+export class Scope {
+    private user: User | null = null
+
+    private tags: Record<string, string> = {}
+
+    private extra: Record<string, unknown> = {}
+
+    private contexts: Record<string, Context> = {}
+
+    setUser(user: User | null) {
+        this.user = user
+    }
+
+    setTag(key: string, value: string) {
+        this.tags[key] = value
+    }
+
+    setTags(tags: Record<string, string>) {
+        this.tags = { ...this.tags, ...tags }
+    }
+
+    setExtra(key: string, value: unknown) {
+        this.extra[key] = value
+    }
+
+    /**
+     * 设置一组结构化的上下文信息，传 null 删除
+     */
+    setContext(name: string, context: Context | null) {
+        if (context) {
+            this.contexts[name] = context
+        } else {
+            delete this.contexts[name]
+        }
+    }
+
+    clear() {
+        this.user = null
+        this.tags = {}
+        this.extra = {}
+        this.contexts = {}
+    }
+
+    /**
+     * 把作用域数据合并进事件，事件自身携带的同名字段优先
+     */
+    applyToEvent(event: Record<string, unknown>): Record<string, unknown> {
+        return {
+            ...event,
+            ...(this.user && { user: { ...this.user, ...(event.user as User | undefined) } }),
+            tags: { ...this.tags, ...(event.tags as Record<string, string> | undefined) },
+            extra: { ...this.extra, ...(event.extra as Record<string, unknown> | undefined) },
+            contexts: { ...this.contexts, ...(event.contexts as Record<string, Context> | undefined) },
+        }
+    }
+}
+
+const globalScope = new Scope()
+
+export function getCurrentScope() {
+    return globalScope
+}
+
+export function setUser(user: User | null) {
+    globalScope.setUser(user)
+}
+
+export function setTag(key: string, value: string) {
+    globalScope.setTag(key, value)
+}
+
+export function setTags(tags: Record<string, string>) {
+    globalScope.setTags(tags)
+}
+
+export function setExtra(key: string, value: unknown) {
+    globalScope.setExtra(key, value)
+}
+
+export function setContext(name: string, context: Context | null) {
+    globalScope.setContext(name, context)
+}
@@ -0,0 +1,141 @@
+import { generateId } from './utils'
+
+/**
+ * 会话的持久化存储，接口与 localStorage 一致；core 不依赖浏览器环境，由各平台注入
+ */
+export interface SessionStorage {
+    getItem(key: string): string | null
+    setItem(key: string, value: string): void
+}
+
+export interface Session {
+    id: string
+    startedAt: number
+    lastActivity: number
+    /**
+     * 会话内事件的序号，从 1 开始递增，服务端据此还原事件顺序
+     */
+    sequence: number
+    /**
+     * 会话内实际上报（未被上限拦截）的事件数，随会话持久化，多页应用中跨页面累计
+     */
+    sentEvents: number
+}
+
+export interface SessionOptions {
+    /**
+     * 会话的持久化存储，不传时会话只保存在内存中，页面刷新即开始新会话
+     */
+    storage?: SessionStorage
+    /**
+     * 超过该时间（毫秒）没有任何事件则结束会话，默认 30 分钟
+     */
+    idleTimeout?: number
+}
+
+const STORAGE_KEY = 'sharing-monitor-session'
+
+const DEFAULT_IDLE_TIMEOUT = 30 * 60 * 1000
+
+/**
+ * 维护当前会话与页面访问：每个事件都会延长会话并递增序号，空闲超时后开始新会话，
+ * 会话切换时通过 onChange 回调通知旧会话结束与新会话开始
+ */
+export class SessionManager {
+    private session: Session | null = null
+
+    private pageViewId: string | null = null
+
+    constructor(
+        private options: SessionOptions,
+        private onChange: (session: Session, previous: Session | null) => void
+    ) {}
+
+    /**
+     * 记录一次活动并返回当前会话，会话已超时则先开始新会话
+     */
+    touch() {
+        const now = Date.now()
+        const current = this.read()
+
+        if (!current || this.isExpired(current, now)) {
+            const session = { id: generateId(), startedAt: now, lastActivity: now, sequence: 0, sentEvents: 0 }
+
+            // 先保存新会话再回调，回调中上报事件时再次调用 touch 不会重复切换
+            this.write(session)
+            this.onChange(session, current)
+        }
+
+        const session = this.read()!
+
+        session.lastActivity = now
+        session.sequence++
+        this.write(session)
+
+        return session
+    }
+
+    getSession() {
+        return this.read()
+    }
+
+    /**
+     * 当前未超时的会话，不记录活动
+     */
+    getActiveSession() {
+        const session = this.read()
+
+        return session && !this.isExpired(session, Date.now()) ? session : null
+    }
+
+    /**
+     * 记录一次实际上报的事件
+     */
+    recordSentEvent() {
+        const session = this.read()
+
+        if (session) {
+            // 旧版本保存的会话没有该字段
+            session.sentEvents = (session.sentEvents || 0) + 1
+            this.write(session)
+        }
+    }
+
+    /**
+     * 开始新的页面访问，之后的事件都带上新的 pageViewId
+     */
+    startPageView() {
+        this.pageViewId = generateId()
+        return this.pageViewId
+    }
+
+    getPageViewId() {
+        return this.pageViewId
+    }
+
+    private isExpired(session: Session, now: number) {
+        return now - session.lastActivity > (this.options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT)
+    }
+
+    // 同一存储下的多个标签页共享会话，每次都从存储中读取最新状态
+    private read(): Session | null {
+        const { storage } = this.options
+
+        if (storage) {
+            try {
+                const value = storage.getItem(STORAGE_KEY)
+                return value ? (JSON.parse(value) as Session) : null
+            } catch {}
+        }
+
+        return this.session && { ...this.session }
+    }
+
+    private write(session: Session) {
+        this.session = session
+
+        try {
+            this.options.storage?.setItem(STORAGE_KEY, JSON.stringify(session))
+        } catch {}
+    }
+}
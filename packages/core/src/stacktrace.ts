@@ -0,0 +1,123 @@
+export interface StackFrame {
+    filename: string
+    function: string
+    lineno?: number
+    colno?: number
+    /**
+     * 是否为业务代码（排除第三方依赖、浏览器扩展与原生代码）
+     */
+    in_app: boolean
+}
+
+const MAX_FRAMES = 50
+
+const UNKNOWN_FUNCTION = '?'
+
+// V8（Chrome / Edge / Node）：
+//   at functionName (http://example.com/app.js:10:5)
+//   at http://example.com/app.js:10:5
+//   at async functionName (http://example.com/app.js:10:5)
+const CHROME_LINE = /^\s*at (?:(.+?) \()?(.+?)(?::(\d+))?(?::(\d+))?\)?\s*$/
+
+// V8 eval 帧：at eval (eval at fn (http://example.com/app.js:10:5), <anonymous>:1:1)
+const CHROME_EVAL = /\((\S+?):(\d+):(\d+)\)/
+
+// SpiderMonkey（Firefox）与 JavaScriptCore（Safari）：
+//   functionName@http://example.com/app.js:10:5
+//   @http://example.com/app.js:10:5
+//   forEach@[native code]
+const GECKO_LINE = /^\s*(.*?)@(.+?)(?::(\d+))?(?::(\d+))?\s*$/
+
+// Firefox eval 帧：fn@http://example.com/app.js line 10 > eval:1:1
+const GECKO_EVAL = /^(\S+) line (\d+)(?: > \w+ line \d+)* > \w+$/
+
+// V8 的 Promise.all 等组合器帧：at async Promise.all (index 0)，括号中是参数下标而不是文件
+const NOT_IN_APP = [
+    /\/node_modules\//,
+    /^(?:chrome|moz|safari(?:-web)?)-extension:/,
+    /^\[native code\]$/,
+    /^<anonymous>$/,
+    /^native$/,
+    /^index \d+$/,
+]
+
+const toNumber = (value: string | undefined) => (value === undefined ? undefined : Number(value))
+
+function createFrame(filename: string, func: string | undefined, lineno?: string, colno?: string): StackFrame {
+    return {
+        filename,
+        function: func || UNKNOWN_FUNCTION,
+        lineno: toNumber(lineno),
+        colno: toNumber(colno),
+        in_app: !NOT_IN_APP.some(pattern => pattern.test(filename)),
+    }
+}
+
+function parseChromeLine(line: string): StackFrame | undefined {
+    const match = CHROME_LINE.exec(line)
+
+    if (!match) {
+        return
+    }
+
+    const [, func, location = '', lineno, colno] = match
+    const functionName = func?.replace(/^(?:async|new) /, '')
+
+    if (location.startsWith('eval at ')) {
+        const evalMatch = CHROME_EVAL.exec(location)
+
+        if (evalMatch) {
+            return createFrame(evalMatch[1]!, functionName, evalMatch[2], evalMatch[3])
+        }
+    }
+
+    return createFrame(location, functionName, lineno, colno)
+}
+
+function parseGeckoLine(line: string): StackFrame | undefined {
+    const match = GECKO_LINE.exec(line)
+
+    if (!match) {
+        return
+    }
+
+    const [, func, location = '', lineno, colno] = match
+    const evalMatch = GECKO_EVAL.exec(location)
+
+    if (evalMatch) {
+        return createFrame(evalMatch[1]!, func || 'eval', evalMatch[2])
+    }
+
+    // 没有行列号的只可能是原生代码，其余情况多半是错误信息中带有 @ 的文本
+    if (lineno === undefined && location !== '[native code]') {
+        return
+    }
+
+    return createFrame(location, func, lineno, colno)
+}
+
+/**
+ * 把 error.stack 解析为结构化的调用帧，按栈顶到栈底排列（frames[0] 为抛出错误的位置）
+ * 支持 V8、SpiderMonkey、JavaScriptCore 三种格式，无法识别的行（如首行错误信息）会被忽略
+ */
+export function parseStackFrames(stack: string | undefined): StackFrame[] {
+    if (!stack) {
+        return []
+    }
+
+    const frames: StackFrame[] = []
+
+    for (const line of stack.split('\n')) {
+        if (frames.length >= MAX_FRAMES) {
+            break
+        }
+
+        const frame = /^\s*at /.test(line) ? parseChromeLine(line) : parseGeckoLine(line)
+
+        if (frame) {
+            frames.push(frame)
+        }
+    }
+
+    return frames
+}
@@ -1,22 +1,106 @@
+import type { Monitoring } from './baseClient'
+import { SessionOptions } from './session'
+
+export type MonitorEvent = Record<string, unknown>
+
+/**
+ * 事件处理函数，返回 null 时丢弃事件
+ */
+export type EventProcessor = (event: MonitorEvent) => MonitorEvent | null
+
 export interface Transport {
     send(data: Record<string, unknown>): void
 }
 
 export interface IIntegration {
-    init(transport: Transport): void
+    /**
+     * 集成名称，同名的集成只会安装一个（后出现的覆盖先出现的）
+     */
+    name: string
+    /**
+     * 全局只执行一次，即使创建了多个客户端；适合包装全局对象等不能重复执行的操作
+     */
+    setupOnce?(): void
+    /**
+     * 每个客户端安装时执行，通过 client 获取 transport 与配置
+     */
+    setup?(client: Monitoring): void
+    /**
+     * 事件经过采样、beforeSend 与会话上限后实际交给 transport 时执行
+     */
+    afterSend?(event: MonitorEvent): void
+    /**
+     * 客户端关闭时执行，移除事件监听、定时器等
+     */
+    teardown?(): void
 }
 
-export class Integration implements IIntegration {
-    constructor(private callback: () => void) {}
+/**
+ * 集成的基类，保存安装它的客户端，子类通过 getTransport 上报事件
+ */
+export abstract class Integration implements IIntegration {
+    abstract name: string
+
+    protected client: Monitoring | null = null
 
-    transport: Transport | null = null
+    setup(client: Monitoring) {
+        this.client = client
+    }
+
+    teardown() {
+        this.client = null
+    }
 
-    init(transport: Transport) {
-        this.transport = transport
+    protected getTransport() {
+        return this.client?.getTransport() ?? null
     }
 }
 
 export interface MonitorOptions {
     dsn: string
-    integrations?: IIntegration[]
+    /**
+     * 默认安装的集成，由各平台的 init 提供；传 false 不安装任何默认集成
+     */
+    defaultIntegrations?: IIntegration[] | false
+    /**
+     * 额外安装的集成，与默认集成同名时覆盖默认集成；
+     * 传函数时以默认集成列表为参数，返回值作为最终安装的集成，可用于过滤或调整默认集成
+     */
+    integrations?: IIntegration[] | ((defaultIntegrations: IIntegration[]) => IIntegration[])
+    /**
+     * 应用版本号，随每个事件上报
+     */
+    release?: string
+    /**
+     * 运行环境，如 production、staging，随每个事件上报
+     */
+    environment?: string
+    /**
+     * 错误事件的采样率（0 ~ 1），默认 1 即全部上报
+     */
+    sampleRate?: number
+    /**
+     * 性能事件的采样率（0 ~ 1），默认 1；按页面决定一次，被采中的页面上报全部性能指标
+     */
+    performanceSampleRate?: number
+    /**
+     * 每个会话最多上报的事件数，默认不限制
+     */
+    maxEventsPerSession?: number
+    /**
+     * 相同指纹的错误去重窗口（毫秒），窗口内的重复错误只计数，窗口结束时上报次数；默认 60000，传 0 关闭
+     */
+    dedupeInterval?: number
+    /**
+     * 事件发出前的最后一步处理，可修改事件或返回 null 丢弃
+     */
+    beforeSend?: (event: MonitorEvent) => MonitorEvent | null
+    /**
+     * 保留的面包屑数量，默认 100
+     */
+    maxBreadcrumbs?: number
+    /**
+     * 会话跟踪配置，所有事件都会带上 sessionId、序号与 pageViewId；传 false 关闭
+     */
+    session?: SessionOptions | false
 }
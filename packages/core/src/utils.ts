@@ -0,0 +1,37 @@
+const MAX_STRING_LENGTH = 1000
+
+function truncate(value: string) {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}...` : value
+}
+
+/**
+ * 把任意值转换为可上报的字符串，循环引用等无法 JSON 序列化的值退回 String()
+ */
+export function serialize(value: unknown): string {
+    if (typeof value === 'string') {
+        return truncate(value)
+    }
+
+    if (value instanceof Error) {
+        return truncate(`${value.name}: ${value.message}`)
+    }
+
+    try {
+        return truncate(JSON.stringify(value) ?? String(value))
+    } catch {
+        return truncate(String(value))
+    }
+}
+
+/**
+ * 生成 32 位十六进制随机 id，用于会话、页面访问等标识
+ */
+export function generateId() {
+    let id = ''
+
+    for (let i = 0; i < 32; i++) {
+        id += Math.floor(Math.random() * 16).toString(16)
+    }
+
+    return id
+}
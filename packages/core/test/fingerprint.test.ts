@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import { getFingerprint, normalizeMessage } from '../src/fingerprint'
+import { StackFrame } from '../src/stacktrace'
+
+const frame = (filename: string, func: string, lineno = 1, in_app = true): StackFrame => ({
+    filename,
+    function: func,
+    lineno,
+    colno: 1,
+    in_app,
+})
+
+describe('normalizeMessage', () => {
+    it('replaces uuids, hex addresses, long ids and numbers', () => {
+        expect(normalizeMessage('order 3f2a1b4c-1d2e-4f5a-8b9c-0d1e2f3a4b5c not found')).toBe('order <uuid> not found')
+        expect(normalizeMessage('bad pointer 0x7ffe12ab')).toBe('bad pointer <hex>')
+        expect(normalizeMessage('session 9a8b7c6d5e4f3a2b1c0d expired')).toBe('session <id> expired')
+        expect(normalizeMessage('timeout after 3000ms on item 42')).toBe('timeout after <num>ms on item <num>')
+    })
+})
+
+describe('getFingerprint', () => {
+    it('groups errors that differ only in variable parts of the message', () => {
+        expect(getFingerprint('TypeError', 'item 1 missing')).toBe(getFingerprint('TypeError', 'item 2 missing'))
+    })
+
+    it('separates errors by type and message', () => {
+        expect(getFingerprint('TypeError', 'failed')).not.toBe(getFingerprint('RangeError', 'failed'))
+        expect(getFingerprint('TypeError', 'failed')).not.toBe(getFingerprint('TypeError', 'broken'))
+    })
+
+    it('ignores line numbers and query strings of frames', () => {
+        const a = [frame('http://example.com/app.js?v=1', 'render', 10)]
+        const b = [frame('http://example.com/app.js?v=2', 'render', 20)]
+
+        expect(getFingerprint('Error', 'failed', a)).toBe(getFingerprint('Error', 'failed', b))
+    })
+
+    it('uses the top app frames and skips non-app frames', () => {
+        const app = [frame('http://example.com/app.js', 'render')]
+        const withVendor = [frame('index 0', 'Promise.all', undefined, false), ...app]
+
+        expect(getFingerprint('Error', 'failed', withVendor)).toBe(getFingerprint('Error', 'failed', app))
+        expect(getFingerprint('Error', 'failed', app)).not.toBe(
+            getFingerprint('Error', 'failed', [frame('http://example.com/app.js', 'mount')])
+        )
+    })
+
+    it('returns an 8 character hex hash', () => {
+        expect(getFingerprint(undefined, undefined)).toMatch(/^[0-9a-f]{8}$/)
+    })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseStackFrames } from '../src/stacktrace'
+
+const CHROME_STACK = `TypeError: Cannot read properties of undefined (reading 'name')
+    at getName (http://example.com/assets/app.js:10:15)
+    at new User (http://example.com/assets/app.js:20:3)
+    at async loadUsers (http://example.com/assets/app.js:30:7)
+    at async Promise.all (index 0)
+    at http://example.com/assets/app.js:40:1
+    at eval (eval at run (http://example.com/assets/app.js:50:9), <anonymous>:1:1)
+    at Array.forEach (<anonymous>)
+    at render (http://example.com/node_modules/react-dom/index.js:60:12)`
+
+const FIREFOX_STACK = `getName@http://example.com/assets/app.js:10:15
+User@http://example.com/assets/app.js:20:3
+@http://example.com/assets/app.js:40:1
+run@http://example.com/assets/app.js line 50 > eval:1:1
+setup@moz-extension://abc/content.js:5:2`
+
+const SAFARI_STACK = `getName@http://example.com/assets/app.js:10:15
+forEach@[native code]
+@http://example.com/assets/app.js:40:1
+global code@http://example.com/assets/app.js:70:5`
+
+describe('parseStackFrames', () => {
+    it('returns no frames without a stack', () => {
+        expect(parseStackFrames(undefined)).toEqual([])
+        expect(parseStackFrames('')).toEqual([])
+    })
+
+    it('parses V8 stacks', () => {
+        expect(parseStackFrames(CHROME_STACK)).toEqual([
+            { filename: 'http://example.com/assets/app.js', function: 'getName', lineno: 10, colno: 15, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: 'User', lineno: 20, colno: 3, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: 'loadUsers', lineno: 30, colno: 7, in_app: true },
+            { filename: 'index 0', function: 'Promise.all', lineno: undefined, colno: undefined, in_app: false },
+            { filename: 'http://example.com/assets/app.js', function: '?', lineno: 40, colno: 1, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: 'eval', lineno: 50, colno: 9, in_app: true },
+            { filename: '<anonymous>', function: 'Array.forEach', lineno: undefined, colno: undefined, in_app: false },
+            { filename: 'http://example.com/node_modules/react-dom/index.js', function: 'render', lineno: 60, colno: 12, in_app: false },
+        ])
+    })
+
+    it('parses SpiderMonkey stacks', () => {
+        expect(parseStackFrames(FIREFOX_STACK)).toEqual([
+            { filename: 'http://example.com/assets/app.js', function: 'getName', lineno: 10, colno: 15, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: 'User', lineno: 20, colno: 3, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: '?', lineno: 40, colno: 1, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: 'run', lineno: 50, colno: undefined, in_app: true },
+            { filename: 'moz-extension://abc/content.js', function: 'setup', lineno: 5, colno: 2, in_app: false },
+        ])
+    })
+
+    it('parses JavaScriptCore stacks', () => {
+        expect(parseStackFrames(SAFARI_STACK)).toEqual([
+            { filename: 'http://example.com/assets/app.js', function: 'getName', lineno: 10, colno: 15, in_app: true },
+            { filename: '[native code]', function: 'forEach', lineno: undefined, colno: undefined, in_app: false },
+            { filename: 'http://example.com/assets/app.js', function: '?', lineno: 40, colno: 1, in_app: true },
+            { filename: 'http://example.com/assets/app.js', function: 'global code', lineno: 70, colno: 5, in_app: true },
+        ])
+    })
+
+    it('ignores the message line and text containing @', () => {
+        expect(parseStackFrames('Error: invalid email user@example.com\n    at check (http://example.com/app.js:1:2)')).toEqual([
+            { filename: 'http://example.com/app.js', function: 'check', lineno: 1, colno: 2, in_app: true },
+        ])
+    })
+
+    it('keeps at most 50 frames', () => {
+        const stack = Array.from({ length: 60 }, (_, i) => `    at fn${i} (http://example.com/app.js:${i + 1}:1)`).join('\n')
+
+        expect(parseStackFrames(stack)).toHaveLength(50)
+    })
+})